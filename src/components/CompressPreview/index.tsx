@@ -0,0 +1,237 @@
+import type {
+  CompressOptions,
+  CompressPreview as Preview,
+  FileItem,
+} from "@/types";
+import { formatBytes } from "@/utils/fileSize";
+import { Spin, Typography } from "antd";
+import React, { useEffect, useRef, useState } from "react";
+import styles from "./index.module.scss";
+
+export interface CompressPreviewProps {
+  file?: FileItem; // 预览的图片
+  options: CompressOptions; // 当前压缩选项
+}
+
+const DEBOUNCE_MS = 400; // 选项变化后等待多久再重新编码
+const MAX_ZOOM = 8;
+
+type View = { zoom: number; x: number; y: number };
+
+const INITIAL_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+// 平移范围限制在图片区域内，缩放为 1 时回到原位
+const clampView = (view: View, width: number, height: number): View => ({
+  zoom: view.zoom,
+  x: Math.min(0, Math.max(width * (1 - view.zoom), view.x)),
+  y: Math.min(0, Math.max(height * (1 - view.zoom), view.y)),
+});
+
+/**
+ * 压缩预览：按当前选项在内存中编码图片，展示预计大小与压缩前后对比
+ * - 选项变化后防抖请求，只显示最后一次请求的结果
+ * - 拖动分隔线对比压缩前后，滚轮缩放、拖拽平移，两侧同步，双击还原
+ */
+const CompressPreview: React.FC<CompressPreviewProps> = ({ file, options }) => {
+  const [preview, setPreview] = useState<Preview>();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>();
+  const [divider, setDivider] = useState(50); // 分隔线位置（%）
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const [panning, setPanning] = useState(false);
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+  const requestIdRef = useRef(0);
+  const previewIdRef = useRef(crypto.randomUUID()); // 主进程据此取消被替代的预览
+  const dragRef = useRef<{
+    type: "pan" | "divider";
+    startX: number;
+    startY: number;
+    view: View;
+  } | null>(null);
+
+  const filePath = file?.path;
+  const optionsKey = JSON.stringify(options);
+
+  useEffect(() => {
+    setPreview(undefined);
+    setView(INITIAL_VIEW);
+  }, [filePath]);
+
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!filePath || !api) return;
+    const requestId = ++requestIdRef.current;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const res = await api.previewCompression(
+          filePath,
+          JSON.parse(optionsKey),
+          previewIdRef.current
+        );
+        if (requestId !== requestIdRef.current) return;
+        setPreview(res);
+        setError(undefined);
+      } catch (e) {
+        if (requestId !== requestIdRef.current) return;
+        setError((e as Error).message);
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filePath, optionsKey]);
+
+  // 卸载（关闭弹窗）时取消进行中的预览，避免与批量任务争抢资源
+  useEffect(() => {
+    const previewId = previewIdRef.current;
+    return () => {
+      window.electronAPI?.cancelPreviewCompression(previewId);
+    };
+  }, []);
+
+  // React 的 wheel 事件是 passive 的，无法阻止弹窗滚动，这里直接监听
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const cx = e.clientX - rect.left;
+      const cy = e.clientY - rect.top;
+      setView((prev) => {
+        const zoom = Math.min(
+          MAX_ZOOM,
+          Math.max(1, prev.zoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2))
+        );
+        // 以光标位置为中心缩放
+        const ratio = zoom / prev.zoom;
+        return clampView(
+          {
+            zoom,
+            x: cx - (cx - prev.x) * ratio,
+            y: cy - (cy - prev.y) * ratio,
+          },
+          rect.width,
+          rect.height
+        );
+      });
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [filePath]);
+
+  const onPointerDown = (e: React.PointerEvent, type: "pan" | "divider") => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { type, startX: e.clientX, startY: e.clientY, view };
+    if (type === "pan") setPanning(true);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const el = viewportRef.current;
+    if (!drag || !el) return;
+    const rect = el.getBoundingClientRect();
+    if (drag.type === "divider") {
+      const percent = ((e.clientX - rect.left) / rect.width) * 100;
+      setDivider(Math.min(100, Math.max(0, percent)));
+      return;
+    }
+    setView(
+      clampView(
+        {
+          zoom: drag.view.zoom,
+          x: drag.view.x + e.clientX - drag.startX,
+          y: drag.view.y + e.clientY - drag.startY,
+        },
+        rect.width,
+        rect.height
+      )
+    );
+  };
+
+  const onPointerUp = () => {
+    dragRef.current = null;
+    setPanning(false);
+  };
+
+  if (!file) return null;
+
+  const transform = `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`;
+  const originalSrc = preview?.originalDataUrl ?? file.originalUrl;
+  const savedPercent =
+    preview && preview.bytesIn > 0
+      ? Math.round((1 - preview.bytesOut / preview.bytesIn) * 1000) / 10
+      : 0;
+
+  return (
+    <div className={styles.compressPreview}>
+      <div className={styles.summary}>
+        {preview && (
+          <>
+            <span>
+              原图 {formatBytes(preview.bytesIn)} → 预计{" "}
+              {formatBytes(preview.bytesOut)}
+            </span>
+            <Typography.Text type={savedPercent > 0 ? "success" : "warning"}>
+              {savedPercent > 0 ? `-${savedPercent}%` : `+${-savedPercent}%`}
+            </Typography.Text>
+            <span className={styles.detail} title={preview.detail}>
+              {preview.detail}
+            </span>
+          </>
+        )}
+        {loading && <Spin size="small" />}
+      </div>
+      <div
+        ref={viewportRef}
+        className={`${styles.viewport} ${panning ? styles.panning : ""}`}
+        onPointerDown={(e) => onPointerDown(e, "pan")}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onDoubleClick={() => setView(INITIAL_VIEW)}
+      >
+        <div className={styles.layer}>
+          <div className={styles.stage} style={{ transform }}>
+            {originalSrc && <img src={originalSrc} alt="压缩前" />}
+          </div>
+        </div>
+        {preview && (
+          <div
+            className={styles.layer}
+            style={{ clipPath: `inset(0 0 0 ${divider}%)` }}
+          >
+            <div className={styles.stage} style={{ transform }}>
+              <img src={preview.dataUrl} alt="压缩后" />
+            </div>
+          </div>
+        )}
+        <span className={`${styles.label} ${styles.before}`}>压缩前</span>
+        {preview && (
+          <>
+            <span className={`${styles.label} ${styles.after}`}>压缩后</span>
+            <div
+              className={styles.divider}
+              style={{ left: `${divider}%` }}
+              onPointerDown={(e) => onPointerDown(e, "divider")}
+            >
+              <span className={styles.handle} />
+            </div>
+          </>
+        )}
+        {error && !loading && (
+          <Typography.Text type="danger" className={styles.status}>
+            预览失败：{error}
+          </Typography.Text>
+        )}
+      </div>
+      <div className={styles.hint}>
+        {`预览第一张图片：${file.name}。拖动分隔线对比，滚轮缩放，拖拽平移，双击还原`}
+      </div>
+    </div>
+  );
+};
+
+export default CompressPreview;
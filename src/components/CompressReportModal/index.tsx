@@ -0,0 +1,155 @@
+import type { CompressFileResult } from "@/types";
+import {
+  COMPRESS_REPORT_STATUS_LABELS,
+  buildCompressReport,
+  compressReportToCsv,
+  compressReportToJson,
+  type CompressReportRow,
+  type CompressReportStatus,
+} from "@/utils/compressReport";
+import { formatBytes } from "@/utils/fileSize";
+import { App, Button, Modal, Table, Tag, type TableColumnsType } from "antd";
+import dayjs from "dayjs";
+import React, { useMemo } from "react";
+
+export interface CompressReportModalProps {
+  open: boolean;
+  onClose: () => void;
+  results: CompressFileResult[];
+}
+
+const STATUS_COLORS: Record<CompressReportStatus, string> = {
+  done: "success",
+  skipped: "default",
+  failed: "error",
+  cancelled: "warning",
+};
+
+const columns: TableColumnsType<CompressReportRow> = [
+  {
+    title: "文件名",
+    dataIndex: "fileName",
+    ellipsis: true,
+    render: (name: string, row) => <span title={row.inputPath}>{name}</span>,
+  },
+  {
+    title: "状态",
+    dataIndex: "status",
+    width: 80,
+    render: (status: CompressReportStatus) => (
+      <Tag bordered={false} color={STATUS_COLORS[status]}>
+        {COMPRESS_REPORT_STATUS_LABELS[status]}
+      </Tag>
+    ),
+  },
+  {
+    title: "原大小",
+    dataIndex: "bytesIn",
+    width: 90,
+    render: (bytes?: number) => formatBytes(bytes),
+  },
+  {
+    title: "新大小",
+    dataIndex: "bytesOut",
+    width: 90,
+    render: (bytes?: number) => formatBytes(bytes),
+  },
+  {
+    title: "节省",
+    dataIndex: "savedPercent",
+    width: 70,
+    render: (percent?: number) => (percent === undefined ? "-" : `${percent}%`),
+  },
+  {
+    title: "尺寸",
+    width: 170,
+    render: (_, row) =>
+      row.dimensions && row.outputDimensions
+        ? row.dimensions === row.outputDimensions
+          ? row.dimensions
+          : `${row.dimensions} → ${row.outputDimensions}`
+        : row.dimensions ?? "-",
+  },
+  {
+    title: "说明",
+    ellipsis: true,
+    render: (_, row) => {
+      const text = row.error ?? row.detail;
+      return <span title={text}>{text ?? "-"}</span>;
+    },
+  },
+];
+
+/**
+ * 压缩结果报告：逐个文件列出压缩前后的大小、尺寸与失败原因，可导出为 CSV / JSON
+ */
+const CompressReportModal: React.FC<CompressReportModalProps> = ({
+  open,
+  onClose,
+  results,
+}) => {
+  const { message } = App.useApp();
+  const report = useMemo(() => buildCompressReport(results), [results]);
+  const { totals } = report;
+
+  const exportReport = async (type: "csv" | "json") => {
+    if (!window.electronAPI) return;
+    const name = `压缩报告_${dayjs(report.generatedAt).format(
+      "YYYYMMDD_HHmmss"
+    )}.${type}`;
+    const content =
+      type === "csv"
+        ? compressReportToCsv(report)
+        : compressReportToJson(report);
+    try {
+      const savedPath = await window.electronAPI.exportTextFile(name, content);
+      if (savedPath) message.success(`报告已保存到 ${savedPath}`);
+    } catch (error) {
+      message.error((error as Error).message);
+    }
+  };
+
+  return (
+    <Modal
+      title="压缩报告"
+      open={open}
+      width={960}
+      onCancel={onClose}
+      footer={[
+        <Button key="csv" onClick={() => exportReport("csv")}>
+          导出 CSV
+        </Button>,
+        <Button key="json" onClick={() => exportReport("json")}>
+          导出 JSON
+        </Button>,
+        <Button key="close" type="primary" onClick={onClose}>
+          关闭
+        </Button>,
+      ]}
+    >
+      <p>
+        共 {totals.files} 个文件：完成 {totals.done}，跳过 {totals.skipped}
+        ，失败 {totals.failed}，已取消 {totals.cancelled}。
+        {totals.bytesIn > 0 &&
+          `总大小 ${formatBytes(totals.bytesIn)} → ${formatBytes(
+            totals.bytesOut
+          )}，节省 ${formatBytes(totals.savedBytes)}（${
+            totals.savedPercent
+          }%）。`}
+        {totals.lossless > 0 && `无损重新编码 ${totals.lossless} 个文件。`}
+        {totals.targetUnmet > 0 &&
+          `${totals.targetUnmet} 个文件无法达到目标，已输出最接近目标的结果。`}
+      </p>
+      <Table<CompressReportRow>
+        size="small"
+        rowKey="inputPath"
+        columns={columns}
+        dataSource={report.rows}
+        pagination={false}
+        scroll={{ y: 400 }}
+      />
+    </Modal>
+  );
+};
+
+export default CompressReportModal;
@@ -1,7 +1,40 @@
-import type { FileItem } from "@/types";
-import { App, Checkbox, Form, Modal, Slider, Tag, type ModalProps } from "antd";
-import React, { useEffect, useState } from "react";
+import {
+  ColorProfileEnum,
+  CompressFormatEnum,
+  CompressModeEnum,
+  FileItemTypeEnum,
+  NoGainActionEnum,
+  ResizeKernelEnum,
+  type CompressFileResult,
+  type CompressOptions,
+  type EncoderSettings as EncoderSettingsType,
+  type FileItem,
+} from "@/types";
+import {
+  loadEncoderSettings,
+  saveEncoderSettings,
+} from "@/utils/encoderSettings";
+import { COLOR_PROFILE_OPTIONS } from "@/utils/format";
+import {
+  Alert,
+  App,
+  Checkbox,
+  Collapse,
+  Form,
+  InputNumber,
+  Modal,
+  Radio,
+  Select,
+  Slider,
+  Space,
+  Tag,
+  type ModalProps,
+} from "antd";
+import React, { useEffect, useMemo, useState } from "react";
 import SelectDir from "../SelectDir";
+import CompressPreview from "../CompressPreview";
+import CompressReportModal from "../CompressReportModal";
+import EncoderSettings from "../EncoderSettings";
 
 export interface CompressedFilesModalProps extends ModalProps {
   open: boolean;
@@ -11,12 +44,83 @@ export interface CompressedFilesModalProps extends ModalProps {
   currentDirectory: string; // 当前目录
 }
 
+const FORMAT_OPTIONS = [
+  { value: CompressFormatEnum.ORIGINAL, label: "保持原格式" },
+  { value: CompressFormatEnum.WEBP, label: "WebP" },
+  { value: CompressFormatEnum.AVIF, label: "AVIF" },
+  { value: CompressFormatEnum.PNG, label: "PNG" },
+  { value: CompressFormatEnum.SMALLEST, label: "自动选择体积最小的格式" },
+];
+
+const NO_GAIN_OPTIONS = [
+  { value: NoGainActionEnum.SKIP, label: "跳过，不输出文件" },
+  { value: NoGainActionEnum.COPY_ORIGINAL, label: "原样复制原图" },
+  { value: NoGainActionEnum.KEEP, label: "仍保留压缩结果" },
+];
+
+const KERNEL_OPTIONS = [
+  { value: ResizeKernelEnum.LANCZOS3, label: "Lanczos3（清晰，默认）" },
+  { value: ResizeKernelEnum.LANCZOS2, label: "Lanczos2" },
+  { value: ResizeKernelEnum.MITCHELL, label: "Mitchell（柔和）" },
+  { value: ResizeKernelEnum.CUBIC, label: "Cubic" },
+  { value: ResizeKernelEnum.NEAREST, label: "最近邻（像素图）" },
+];
+
+type ResizeMode = "box" | "longEdge" | "percent"; // 尺寸限制方式
+
 export type FormType = {
   outputDir: string; // 输出目录
+  compressMode: CompressModeEnum; // 压缩模式
   compressQuality: number; // 图片质量(越小压缩越狠)
+  targetSizeKB: number; // 目标文件大小（KB）
+  targetSsim: number; // 目标结构相似度（自动质量）
+  allowScale: boolean; // 无法达到目标大小时是否允许缩小尺寸
+  outputFormat: CompressFormatEnum; // 输出格式
+  noGainAction: NoGainActionEnum; // 压缩后体积未减小时的处理方式
+  minSavingsPercent: number; // 最小节省比例（%）
+  resizeEnabled: boolean; // 是否限制尺寸
+  resizeMode: ResizeMode; // 尺寸限制方式
+  maxWidth?: number; // 最大宽度
+  maxHeight?: number; // 最大高度
+  longEdge: number; // 长边尺寸
+  resizePercent: number; // 缩小百分比
+  resizeKernel: ResizeKernelEnum; // 缩放算法
+  encoders: EncoderSettingsType; // 各格式的高级编码设置
+  colorProfile: ColorProfileEnum; // 色彩配置文件的处理方式
   isUseCurrentDir: boolean; // 是否使用当前目录
 };
 
+// 表单值转换为压缩选项（未显示的表单项不会出现在 values 中）
+const toCompressOptions = (values: FormType): CompressOptions => ({
+  mode: values.compressMode,
+  quality: values.compressQuality,
+  targetSize:
+    values.compressMode === CompressModeEnum.TARGET_SIZE
+      ? Math.round(values.targetSizeKB * 1024)
+      : undefined,
+  targetSsim:
+    values.compressMode === CompressModeEnum.AUTO
+      ? values.targetSsim
+      : undefined,
+  allowScale: values.allowScale,
+  format: values.outputFormat,
+  noGainAction: values.noGainAction,
+  minSavingsPercent: values.minSavingsPercent,
+  resize: values.resizeEnabled
+    ? {
+        maxWidth: values.resizeMode === "box" ? values.maxWidth : undefined,
+        maxHeight: values.resizeMode === "box" ? values.maxHeight : undefined,
+        longEdge:
+          values.resizeMode === "longEdge" ? values.longEdge : undefined,
+        percent:
+          values.resizeMode === "percent" ? values.resizePercent : undefined,
+        kernel: values.resizeKernel,
+      }
+    : undefined,
+  encoders: values.encoders,
+  colorProfile: values.colorProfile,
+});
+
 const CompressedFilesModal: React.FC<CompressedFilesModalProps> = ({
   open,
   onOk,
@@ -27,8 +131,21 @@ const CompressedFilesModal: React.FC<CompressedFilesModalProps> = ({
 }) => {
   const [form] = Form.useForm();
   const isUseCurrentDir = Form.useWatch("isUseCurrentDir", form);
+  const compressMode = Form.useWatch("compressMode", form);
+  const noGainAction = Form.useWatch("noGainAction", form);
+  const resizeEnabled = Form.useWatch("resizeEnabled", form);
+  const resizeMode = Form.useWatch("resizeMode", form);
+  const values: FormType | undefined = Form.useWatch([], form); // 全部表单值，用于预览
   const [confirmLoading, setConfirmLoading] = useState(false);
+  const [reportResults, setReportResults] = useState<CompressFileResult[]>(); // 最近一次压缩的结果报告
   const { message } = App.useApp();
+  const previewFile = selectedFiles.find(
+    (v) => v.type === FileItemTypeEnum.IMAGE
+  );
+  const previewOptions = useMemo(
+    () => (values ? toCompressOptions(values) : undefined),
+    [values]
+  );
 
   const onFinish = async (values: FormType) => {
     if (values.isUseCurrentDir) {
@@ -37,19 +154,23 @@ const CompressedFilesModal: React.FC<CompressedFilesModalProps> = ({
     if (!window.electronAPI) return;
     setConfirmLoading(true);
     try {
-      await window.electronAPI.compressFiles(
-        selectedFiles.map((v) => v.path),
+      const filePaths = selectedFiles.map((v) => v.path);
+      // 任务加入队列后关闭弹窗，进度在任务面板中查看
+      const pending = window.electronAPI.compressFiles(
+        filePaths,
         values.outputDir,
-        values.compressQuality
+        toCompressOptions(values),
+        { jobId: crypto.randomUUID() }
       );
-      setConfirmLoading(false);
+      onCancel?.();
+      const res = await pending;
       const outDir = values.isUseCurrentDir ? currentDirectory : values.outputDir;
       if (outDir) {
         window.dispatchEvent(new CustomEvent<string>("refresh-directory", { detail: outDir }));
       }
       onOk?.();
-      onCancel?.();
-      message.success("压缩文件成功");
+      // 逐个文件的结果（含失败原因）在报告中查看
+      setReportResults(res.results);
     } catch (error) {
       message.error((error as Error).message);
     } finally {
@@ -62,61 +183,230 @@ const CompressedFilesModal: React.FC<CompressedFilesModalProps> = ({
       form.setFieldsValue({
         isUseCurrentDir: true,
         outputDir: currentDirectory,
+        compressMode: CompressModeEnum.QUALITY,
         compressQuality: 80,
+        targetSizeKB: 200,
+        targetSsim: 0.98,
+        allowScale: false,
+        outputFormat: CompressFormatEnum.ORIGINAL,
+        noGainAction: NoGainActionEnum.SKIP,
+        minSavingsPercent: 0,
+        resizeEnabled: false,
+        resizeMode: "longEdge",
+        longEdge: 1920,
+        resizePercent: 50,
+        resizeKernel: ResizeKernelEnum.LANCZOS3,
+        encoders: loadEncoderSettings(),
+        colorProfile: ColorProfileEnum.STRIP,
       });
     }
   }, [open, form, currentDirectory]);
 
   return (
-    <Modal
-      {...rest}
-      title="压缩文件"
-      open={open}
-      onOk={() => form.submit()}
-      onCancel={() => onCancel?.()}
-      maskClosable={false}
-      keyboard={false}
-      confirmLoading={confirmLoading}
-    >
-      <Form layout="vertical" form={form} onFinish={onFinish}>
-        <Form.Item<FormType> label="已选文件">
-          <div
-            style={{
-              maxHeight: "300px",
-              overflowY: "auto",
-              display: "flex",
-              flexWrap: "wrap",
-              gap: "4px",
-            }}
-          >
-            {selectedFiles.map((v) => (
-              <Tag bordered={false} color="processing" key={v.path}>
-                {v.name}
-              </Tag>
-            ))}
-          </div>
-        </Form.Item>
-        <Form.Item<FormType> label="图片质量" name="compressQuality">
-          <Slider min={30} max={100} />
-        </Form.Item>
-        <Form.Item<FormType>
-          label="输出目录"
-          name="isUseCurrentDir"
-          valuePropName="checked"
+    <>
+      <Modal
+        {...rest}
+        title="压缩文件"
+        open={open}
+        onOk={() => form.submit()}
+        onCancel={() => onCancel?.()}
+        maskClosable={false}
+        keyboard={false}
+        confirmLoading={confirmLoading}
+        width={720}
+      >
+        <Form
+          layout="vertical"
+          form={form}
+          onFinish={onFinish}
+          onValuesChange={(changed: Partial<FormType>, all: FormType) => {
+            // 高级编码设置按格式保存，下次打开时恢复
+            if (changed.encoders) saveEncoderSettings(all.encoders);
+          }}
         >
-          <Checkbox>当前目录</Checkbox>
-        </Form.Item>
-        {!isUseCurrentDir && (
+          <Form.Item<FormType> label="已选文件">
+            <div
+              style={{
+                maxHeight: "300px",
+                overflowY: "auto",
+                display: "flex",
+                flexWrap: "wrap",
+                gap: "4px",
+              }}
+            >
+              {selectedFiles.map((v) => (
+                <Tag bordered={false} color="processing" key={v.path}>
+                  {v.name}
+                </Tag>
+              ))}
+            </div>
+          </Form.Item>
+          {open && previewFile && previewOptions && (
+            <Form.Item<FormType> label="预览">
+              <CompressPreview file={previewFile} options={previewOptions} />
+            </Form.Item>
+          )}
+          <Form.Item<FormType>
+            label="输出格式"
+            name="outputFormat"
+            extra="转换格式时输出文件扩展名随之改变；动图只能输出为 GIF 或 WebP，SVG 只精简标记"
+          >
+            <Select options={FORMAT_OPTIONS} />
+          </Form.Item>
+          <Form.Item<FormType> label="压缩方式" name="compressMode">
+            <Radio.Group>
+              <Radio value={CompressModeEnum.QUALITY}>按质量</Radio>
+              <Radio value={CompressModeEnum.TARGET_SIZE}>按目标大小</Radio>
+              <Radio value={CompressModeEnum.AUTO}>自动质量</Radio>
+              <Radio value={CompressModeEnum.LOSSLESS}>无损</Radio>
+            </Radio.Group>
+          </Form.Item>
+          {compressMode === CompressModeEnum.LOSSLESS ? (
+            <Form.Item<FormType>>
+              <Alert
+                type="info"
+                showIcon
+                message="PNG 不做调色板量化，WebP/AVIF 使用无损编码，TIFF 使用 deflate 压缩，GIF 复用原调色板，并去除元数据。JPEG、BMP 没有无损模式，请将输出格式设为 PNG、WebP、AVIF 或自动选择。"
+              />
+            </Form.Item>
+          ) : compressMode === CompressModeEnum.AUTO ? (
+            <Form.Item<FormType>
+              label="目标相似度（SSIM）"
+              name="targetSsim"
+              extra="逐个文件寻找与原图结构相似度不低于该值的最低质量，数值越高画质越好、体积越大"
+            >
+              <Slider min={0.9} max={0.995} step={0.005} />
+            </Form.Item>
+          ) : compressMode === CompressModeEnum.TARGET_SIZE ? (
+            <>
+              <Form.Item<FormType>
+                label="目标大小"
+                name="targetSizeKB"
+                extra="逐个文件自动寻找不超过目标大小的最高质量"
+                rules={[{ required: true, message: "请输入目标大小" }]}
+              >
+                <InputNumber min={1} max={1024 * 1024} addonAfter="KB" />
+              </Form.Item>
+              <Form.Item<FormType> name="allowScale" valuePropName="checked">
+                <Checkbox>最低质量仍超出时允许缩小图片尺寸</Checkbox>
+              </Form.Item>
+            </>
+          ) : (
+            <Form.Item<FormType> label="图片质量" name="compressQuality">
+              <Slider min={30} max={100} />
+            </Form.Item>
+          )}
+          <Form.Item<FormType> name="resizeEnabled" valuePropName="checked">
+            <Checkbox>限制尺寸（保持宽高比，不放大）</Checkbox>
+          </Form.Item>
+          {resizeEnabled && (
+            <>
+              <Form.Item<FormType> name="resizeMode">
+                <Radio.Group>
+                  <Radio value="box">最大宽高</Radio>
+                  <Radio value="longEdge">长边</Radio>
+                  <Radio value="percent">百分比</Radio>
+                </Radio.Group>
+              </Form.Item>
+              {resizeMode === "box" && (
+                <Space>
+                  <Form.Item<FormType> name="maxWidth">
+                    <InputNumber
+                      min={1}
+                      precision={0}
+                      addonBefore="宽"
+                      addonAfter="px"
+                      placeholder="不限"
+                    />
+                  </Form.Item>
+                  <Form.Item<FormType> name="maxHeight">
+                    <InputNumber
+                      min={1}
+                      precision={0}
+                      addonBefore="高"
+                      addonAfter="px"
+                      placeholder="不限"
+                    />
+                  </Form.Item>
+                </Space>
+              )}
+              {resizeMode === "longEdge" && (
+                <Form.Item<FormType>
+                  name="longEdge"
+                  rules={[{ required: true, message: "请输入长边尺寸" }]}
+                >
+                  <InputNumber min={1} precision={0} addonAfter="px" />
+                </Form.Item>
+              )}
+              {resizeMode === "percent" && (
+                <Form.Item<FormType>
+                  name="resizePercent"
+                  rules={[{ required: true, message: "请输入百分比" }]}
+                >
+                  <InputNumber min={1} max={100} addonAfter="%" />
+                </Form.Item>
+              )}
+              <Form.Item<FormType> label="缩放算法" name="resizeKernel">
+                <Select options={KERNEL_OPTIONS} />
+              </Form.Item>
+            </>
+          )}
+          <Form.Item<FormType> label="压缩后体积未减小时">
+            <Space.Compact block>
+              <Form.Item<FormType> name="noGainAction" noStyle>
+                <Select options={NO_GAIN_OPTIONS} style={{ width: "60%" }} />
+              </Form.Item>
+              <Form.Item<FormType> name="minSavingsPercent" noStyle>
+                <InputNumber
+                  min={0}
+                  max={90}
+                  disabled={noGainAction === NoGainActionEnum.KEEP}
+                  addonBefore="至少节省"
+                  addonAfter="%"
+                  style={{ width: "40%" }}
+                />
+              </Form.Item>
+            </Space.Compact>
+          </Form.Item>
+          <Form.Item<FormType> label="色彩配置文件（ICC）" name="colorProfile">
+            <Select options={COLOR_PROFILE_OPTIONS} />
+          </Form.Item>
+          <Collapse
+            size="small"
+            style={{ marginBottom: 24 }}
+            items={[
+              {
+                key: "advanced",
+                label: "高级设置（按输出格式分别保存）",
+                forceRender: true, // 折叠时也要注册表单项，提交时才能拿到值
+                children: <EncoderSettings />,
+              },
+            ]}
+          />
           <Form.Item<FormType>
-            label="选择目录"
-            name="outputDir"
-            rules={[{ required: true, message: "请选择输出目录" }]}
+            label="输出目录"
+            name="isUseCurrentDir"
+            valuePropName="checked"
           >
-            <SelectDir />
+            <Checkbox>当前目录</Checkbox>
           </Form.Item>
-        )}
-      </Form>
-    </Modal>
+          {!isUseCurrentDir && (
+            <Form.Item<FormType>
+              label="选择目录"
+              name="outputDir"
+              rules={[{ required: true, message: "请选择输出目录" }]}
+            >
+              <SelectDir />
+            </Form.Item>
+          )}
+        </Form>
+      </Modal>
+      <CompressReportModal
+        open={!!reportResults}
+        results={reportResults ?? []}
+        onClose={() => setReportResults(undefined)}
+      />
+    </>
   );
 };
 
@@ -1,5 +1,36 @@
-import type { FileItem } from "@/types";
-import { App, Checkbox, Form, Modal, Radio, Tag, type ModalProps } from "antd";
+import {
+  ColorProfileEnum,
+  FileItemTypeEnum,
+  type ConvertOptions,
+  type FileItem,
+} from "@/types";
+import {
+  COLOR_PROFILE_OPTIONS,
+  CONVERT_FORMATS,
+  CONVERT_FORMAT_LIST,
+  DEFAULT_FLATTEN_BACKGROUND,
+  ICO_SIZES,
+  formatOfFileName,
+  type ConvertFormat,
+  type ConvertFormatInfo,
+  type ConvertOptionKey,
+} from "@/utils/format";
+import {
+  Alert,
+  App,
+  Checkbox,
+  ColorPicker,
+  Form,
+  InputNumber,
+  Modal,
+  Select,
+  Slider,
+  Switch,
+  Tabs,
+  Tag,
+  type ModalProps,
+  type TabsProps,
+} from "antd";
 import React, { useEffect, useState, useMemo } from "react";
 import SelectDir from "../SelectDir";
 
@@ -14,21 +45,117 @@ export interface ConvertFilesModalProps extends ModalProps {
 export type FormType = {
   outputDir: string;
   isUseCurrentDir: boolean;
+  options: Partial<Record<ConvertFormat, ConvertOptions>>; // 各目标格式的编码选项
+  background: string; // 目标格式不支持透明时透明区域的填充色
+  colorProfile: ColorProfileEnum; // 色彩配置文件的处理方式
 };
 
+const FORMAT_OPTIONS = CONVERT_FORMAT_LIST.map((f) => ({
+  value: f,
+  label: CONVERT_FORMATS[f].label,
+}));
+
+const TIFF_COMPRESSION_OPTIONS = [
+  { value: "deflate", label: "Deflate（无损）" },
+  { value: "lzw", label: "LZW（无损）" },
+  { value: "jpeg", label: "JPEG（有损）" },
+  { value: "packbits", label: "PackBits（无损）" },
+  { value: "none", label: "不压缩" },
+];
+
+// 透明区域的棋盘格底纹
+const CHECKERBOARD =
+  "repeating-conic-gradient(#d9d9d9 0% 25%, #ffffff 0% 50%) 50% / 12px 12px";
+
+// 最多展示几张透明图片的填充预览
+const MAX_FLATTEN_PREVIEWS = 4;
+
 // 将纯函数移到组件外部，避免每次渲染都创建新函数
-const getExt = (name: string) => {
-  const idx = name.lastIndexOf(".");
-  const ext = idx >= 0 ? name.slice(idx + 1).toLowerCase() : "";
-  return ext === "jpeg" ? "jpg" : ext;
-};
+const defaultTargetFor = (name: string): ConvertFormat =>
+  formatOfFileName(name) === "jpg" ? "png" : "jpg";
+
+// 表单初始值：各格式的默认编码选项
+const defaultOptions = () =>
+  Object.fromEntries(
+    CONVERT_FORMAT_LIST.map((f) => [f, { ...CONVERT_FORMATS[f].defaults }])
+  ) as FormType["options"];
 
-const defaultTargetFor = (name: string): "jpg" | "png" | "bmp" => {
-  const ext = getExt(name);
-  if (ext === "jpg") return "png";
-  if (ext === "png") return "jpg";
-  if (ext === "bmp") return "jpg";
-  return "jpg";
+// 按注册表中的选项生成编码选项表单项
+const renderOption = (format: ConvertFormat, key: ConvertOptionKey) => {
+  const name = ["options", format, key];
+  const info: ConvertFormatInfo = CONVERT_FORMATS[format];
+  switch (key) {
+    case "quality":
+      return (
+        <Form.Item
+          key={key}
+          noStyle
+          dependencies={[["options", format, "lossless"]]}
+        >
+          {({ getFieldValue }) => (
+            <Form.Item label="质量" name={name}>
+              <Slider
+                min={1}
+                max={100}
+                disabled={getFieldValue(["options", format, "lossless"])}
+              />
+            </Form.Item>
+          )}
+        </Form.Item>
+      );
+    case "lossless":
+      return (
+        <Form.Item key={key} label="无损" name={name} valuePropName="checked">
+          <Switch />
+        </Form.Item>
+      );
+    case "effort":
+      return (
+        <Form.Item key={key} label="压缩力度" name={name}>
+          <Slider min={info.effort?.min ?? 0} max={info.effort?.max ?? 9} />
+        </Form.Item>
+      );
+    case "colors":
+      return (
+        <Form.Item key={key} label="调色板颜色数" name={name}>
+          <InputNumber
+            min={2}
+            max={256}
+            precision={0}
+            placeholder={format === "png" ? "不量化（全彩）" : undefined}
+            style={{ width: 160 }}
+          />
+        </Form.Item>
+      );
+    case "compression":
+      return (
+        <Form.Item key={key} label="压缩方式" name={name}>
+          <Select options={TIFF_COMPRESSION_OPTIONS} />
+        </Form.Item>
+      );
+    case "sizes":
+      return (
+        <Form.Item
+          key={key}
+          label="图标尺寸"
+          name={name}
+          rules={[
+            {
+              required: true,
+              type: "array",
+              message: "请至少选择一个图标尺寸",
+            },
+          ]}
+        >
+          <Checkbox.Group
+            options={ICO_SIZES.map((size) => ({
+              value: size,
+              label: `${size}×${size}`,
+            }))}
+          />
+        </Form.Item>
+      );
+  }
 };
 
 const ConvertFilesModal: React.FC<ConvertFilesModalProps> = ({
@@ -41,11 +168,14 @@ const ConvertFilesModal: React.FC<ConvertFilesModalProps> = ({
 }) => {
   const [form] = Form.useForm();
   const isUseCurrentDir = Form.useWatch("isUseCurrentDir", form);
+  const background = Form.useWatch("background", form);
   const [confirmLoading, setConfirmLoading] = useState(false);
-  const { message } = App.useApp();
-  const [targets, setTargets] = useState<Record<string, "jpg" | "png" | "bmp">>(
-    {}
+  const { message, modal } = App.useApp();
+  const [targets, setTargets] = useState<Record<string, ConvertFormat>>({});
+  const [transparentPaths, setTransparentPaths] = useState<Set<string>>(
+    new Set()
   );
+  const [checkerboard, setCheckerboard] = useState(false); // 预览时用棋盘格显示透明区域
 
   // 使用 useMemo 来稳定 selectedFiles 的引用，基于文件路径数组
   const selectedFilesPaths = useMemo(
@@ -53,22 +183,51 @@ const ConvertFilesModal: React.FC<ConvertFilesModalProps> = ({
     [selectedFiles]
   );
 
-  const onFinish = async (values: FormType) => {
-    if (values.isUseCurrentDir) {
-      values.outputDir = currentDirectory;
-    }
+  const imagePaths = useMemo(
+    () =>
+      selectedFiles
+        .filter((f) => f.type === FileItemTypeEnum.IMAGE)
+        .map((f) => f.path),
+    [selectedFiles]
+  );
+
+  const targetOf = (f: FileItem) => targets[f.path] ?? defaultTargetFor(f.name);
+
+  // 含透明通道、且目标格式不支持透明的文件
+  const flattenFiles = selectedFiles.filter(
+    (f) => transparentPaths.has(f.path) && !CONVERT_FORMATS[targetOf(f)].alpha
+  );
+
+  const convert = async (values: FormType) => {
     if (!window.electronAPI) return;
     setConfirmLoading(true);
     try {
-      const tasks = selectedFiles.map((f) => ({
-        file: f,
-        targetFormat: targets[f.path] ?? defaultTargetFor(f.name),
-      }));
-      await window.electronAPI.convertFiles(tasks, values.outputDir);
-      setConfirmLoading(false);
-      onOk?.();
+      const tasks = selectedFiles.map((f) => {
+        const targetFormat = targets[f.path] ?? defaultTargetFor(f.name);
+        return {
+          file: f,
+          targetFormat,
+          options: values.options?.[targetFormat],
+          background: values.background,
+          colorProfile: values.colorProfile,
+        };
+      });
+      // 任务加入队列后关闭弹窗，进度在任务面板中查看
+      const pending = window.electronAPI.convertFiles(tasks, values.outputDir, {
+        jobId: crypto.randomUUID(),
+      });
       onCancel?.();
-      message.success("转换文件成功");
+      const res = await pending;
+      onOk?.();
+      if (res.success) {
+        message.success("转换文件成功");
+      } else if (res.cancelled) {
+        const done = res.results.filter((r) => r.success).length;
+        message.warning(`已取消，完成 ${done}/${res.results.length} 个文件`);
+      } else {
+        const failed = res.results.filter((r) => !r.success).length;
+        message.error(`有 ${failed} 个文件转换失败`);
+      }
     } catch (error) {
       message.error((error as Error).message);
     } finally {
@@ -76,14 +235,55 @@ const ConvertFilesModal: React.FC<ConvertFilesModalProps> = ({
     }
   };
 
+  const onFinish = (values: FormType) => {
+    if (values.isUseCurrentDir) {
+      values.outputDir = currentDirectory;
+    }
+    if (flattenFiles.length === 0) {
+      convert(values);
+      return;
+    }
+    const formats = [
+      ...new Set(flattenFiles.map((f) => CONVERT_FORMATS[targetOf(f)].label)),
+    ].join("、");
+    modal.confirm({
+      title: "部分图片含透明区域",
+      content: `${flattenFiles.length} 张图片含透明通道，${formats} 不支持透明，转换后透明区域将填充为 ${values.background}。是否继续？`,
+      okText: "继续转换",
+      cancelText: "取消",
+      onOk: () => {
+        convert(values);
+      },
+    });
+  };
+
+  // 打开弹窗时检测哪些图片含透明通道
+  useEffect(() => {
+    const api = window.electronAPI;
+    if (!open || !api || imagePaths.length === 0) return;
+    let cancelled = false;
+    api
+      .detectTransparentImages(imagePaths)
+      .then((paths) => {
+        if (!cancelled) setTransparentPaths(new Set(paths));
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [open, imagePaths]);
+
   useEffect(() => {
     if (open) {
       form.setFieldsValue({
         isUseCurrentDir: true,
         outputDir: currentDirectory,
+        options: defaultOptions(),
+        background: DEFAULT_FLATTEN_BACKGROUND,
+        colorProfile: ColorProfileEnum.STRIP,
       });
       setTargets((prev) => {
-        const next: Record<string, "jpg" | "png" | "bmp"> = { ...prev };
+        const next: Record<string, ConvertFormat> = { ...prev };
         for (const f of selectedFiles) {
           if (!next[f.path]) next[f.path] = defaultTargetFor(f.name);
         }
@@ -92,6 +292,17 @@ const ConvertFilesModal: React.FC<ConvertFilesModalProps> = ({
     }
   }, [open, form, currentDirectory, selectedFilesPaths]);
 
+  // 只展示已选目标格式中有可调选项的格式
+  const usedFormats = new Set(selectedFiles.map(targetOf));
+  const optionTabs: TabsProps["items"] = CONVERT_FORMAT_LIST.filter(
+    (f) => usedFormats.has(f) && CONVERT_FORMATS[f].options.length > 0
+  ).map((f) => ({
+    key: f,
+    forceRender: true, // 未打开的标签页也要注册表单项，提交时才能拿到值
+    label: CONVERT_FORMATS[f].label,
+    children: CONVERT_FORMATS[f].options.map((key) => renderOption(f, key)),
+  }));
+
   return (
     <Modal
       {...rest}
@@ -102,6 +313,7 @@ const ConvertFilesModal: React.FC<ConvertFilesModalProps> = ({
       confirmLoading={confirmLoading}
       maskClosable={false}
       keyboard={false}
+      width={640}
     >
       <Form layout="vertical" form={form} onFinish={onFinish}>
         <Form.Item<FormType> label="已选文件">
@@ -132,11 +344,8 @@ const ConvertFilesModal: React.FC<ConvertFilesModalProps> = ({
             }}
           >
             {selectedFiles.map((f) => {
-              const ext = getExt(f.name);
-              const disableJpg = ext === "jpg";
-              const disablePng = ext === "png";
-              const disableBmp = ext === "bmp";
-              const val = targets[f.path] ?? defaultTargetFor(f.name);
+              const source = formatOfFileName(f.name);
+              const val = targetOf(f);
               return (
                 <div
                   key={f.path}
@@ -149,30 +358,78 @@ const ConvertFilesModal: React.FC<ConvertFilesModalProps> = ({
                   >
                     {f.name}
                   </Tag>
-                  <Radio.Group
+                  <Select
                     value={val}
-                    onChange={(e) =>
-                      setTargets((prev) => ({
-                        ...prev,
-                        [f.path]: e.target.value,
-                      }))
+                    style={{ width: 120 }}
+                    options={FORMAT_OPTIONS.map((o) => ({
+                      ...o,
+                      disabled: o.value === source,
+                    }))}
+                    onChange={(value) =>
+                      setTargets((prev) => ({ ...prev, [f.path]: value }))
                     }
-                  >
-                    <Radio.Button value="jpg" disabled={disableJpg}>
-                      JPG
-                    </Radio.Button>
-                    <Radio.Button value="png" disabled={disablePng}>
-                      PNG
-                    </Radio.Button>
-                    <Radio.Button value="bmp" disabled={disableBmp}>
-                      BMP
-                    </Radio.Button>
-                  </Radio.Group>
+                  />
                 </div>
               );
             })}
           </div>
         </Form.Item>
+        {optionTabs.length > 0 && (
+          <Form.Item label="编码选项">
+            <Tabs size="small" items={optionTabs} />
+          </Form.Item>
+        )}
+        {flattenFiles.length > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: 16 }}
+            message={`${flattenFiles.length} 张图片含透明通道，目标格式不支持透明，转换后透明区域将填充为下方颜色`}
+          />
+        )}
+        <Form.Item<FormType>
+          label="透明区域填充色"
+          hidden={flattenFiles.length === 0}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+            <Form.Item<FormType>
+              noStyle
+              name="background"
+              getValueFromEvent={(color: { toHexString: () => string }) =>
+                color.toHexString().slice(0, 7)
+              }
+            >
+              <ColorPicker disabledAlpha showText />
+            </Form.Item>
+            <Checkbox
+              checked={checkerboard}
+              onChange={(e) => setCheckerboard(e.target.checked)}
+            >
+              棋盘格预览
+            </Checkbox>
+          </div>
+          <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+            {flattenFiles.slice(0, MAX_FLATTEN_PREVIEWS).map((f) => (
+              <img
+                key={f.path}
+                src={f.thumbnailUrl ?? f.originalUrl}
+                alt={f.name}
+                title={f.name}
+                style={{
+                  width: 96,
+                  height: 96,
+                  objectFit: "contain",
+                  border: "1px solid #f0f0f0",
+                  borderRadius: 4,
+                  background: checkerboard ? CHECKERBOARD : background,
+                }}
+              />
+            ))}
+          </div>
+        </Form.Item>
+        <Form.Item<FormType> label="色彩配置文件（ICC）" name="colorProfile">
+          <Select options={COLOR_PROFILE_OPTIONS} />
+        </Form.Item>
         <Form.Item<FormType>
           label="输出目录"
           name="isUseCurrentDir"
@@ -67,6 +67,10 @@ const DetailsModal: React.FC<DetailsModalProps> = ({
           <p>
             文件尺寸：{fileDetails.width} x {fileDetails.height}
           </p>
+          {fileDetails.colorSpace && <p>色彩空间：{fileDetails.colorSpace}</p>}
+          {fileDetails.colorSpace && (
+            <p>ICC 配置文件：{fileDetails.iccProfile ?? "未嵌入"}</p>
+          )}
         </div>
       )}
     </Modal>
@@ -1,7 +1,13 @@
-import { useEffect, useCallback, useRef } from "react";
+import { useEffect, useCallback, useMemo, useRef } from "react";
 import styles from "./index.module.scss";
 import { useImmer } from "use-immer";
-import { FileItemTypeEnum, type FileItem, type BreadcrumbList } from "@/types";
+import {
+  FileItemTypeEnum,
+  type FileItem,
+  type BreadcrumbList,
+  type DirectoryListOptions,
+  type SearchOptions,
+} from "@/types";
 import {
   Empty,
   Breadcrumb,
@@ -20,11 +26,23 @@ import CompressedFilesModal from "../CompressedFilesModal";
 import ConvertFilesModal from "../ConvertFilesModal";
 import WatermarkModal from "../WatermarkModal";
 import CropModal from "../CropModal";
+import IconPackModal from "../IconPackModal";
+import RasterizeSvgModal from "../RasterizeSvgModal";
 import DetailsModal from "../DetailsModal";
+import VirtualGrid from "../VirtualGrid";
+import { compareFileItems, matchesFilter } from "@/utils/fileSort";
+import SortFilterBar from "../SortFilterBar";
+import SearchBar from "../SearchBar";
+import JobProgressPanel from "../JobProgressPanel";
+
+const BATCH_SIZE = 200; // 每批加载的条目数量
+const ITEM_WIDTH = 100; // 格子宽度
+const ITEM_HEIGHT = 150; // 格子高度（图片 + 两行文件名）
+
+const isSvgFile = (item: FileItem) => item.name.toLowerCase().endsWith(".svg");
 
 const Directory: React.FC = () => {
   const [list, setList] = useImmer<FileItem[]>([]); // 列表数据
-  const [isEmpty, setIsEmpty] = useImmer(false); // 是否为空
   const [breadcrumb, setBreadcrumb] = useImmer<BreadcrumbList>([]); // 面包屑
   const [batchOperation, setBatchOperation] = useImmer(false); // 是否开启批量操作
   const [selectedFiles, setSelectedFiles] = useImmer<FileItem[]>([]); // 选中的文件(批量操作)
@@ -37,7 +55,25 @@ const Directory: React.FC = () => {
   const [convertFilesModalOpen, setConvertFilesModalOpen] = useImmer(false); // 转换文件弹窗是否打开
   const [watermarkModalOpen, setWatermarkModalOpen] = useImmer(false); // 加水印弹窗是否打开
   const [cropModalOpen, setCropModalOpen] = useImmer(false); // 裁剪弹窗是否打开
+  const [iconPackModalOpen, setIconPackModalOpen] = useImmer(false); // 图标包弹窗是否打开
+  const [rasterizeModalOpen, setRasterizeModalOpen] = useImmer(false); // SVG 导出位图弹窗是否打开
   const [detailsModalOpen, setDetailsModalOpen] = useImmer(false); // 详情弹窗是否打开
+  const [listKey, setListKey] = useImmer<string | undefined>(undefined); // 列表标识，切换目录时重置滚动位置
+  const cursorRef = useRef<string | undefined>(undefined); // 当前目录游标
+  const directoryRequestRef = useRef(0); // 目录加载请求序号，用于丢弃过期请求
+  const watchIdRef = useRef<string | null>(null); // 当前目录监听 ID
+  const [listOptions, setListOptions] = useImmer<DirectoryListOptions>({}); // 排序与筛选条件
+  const listOptionsRef = useRef<DirectoryListOptions>({}); // 排序与筛选条件（供回调读取最新值）
+  const hasMoreRef = useRef(false); // 是否还有未加载的条目
+  const [search, setSearch] = useImmer<
+    | { query: string; running: boolean; total: number; truncated: boolean }
+    | undefined
+  >(undefined); // 搜索状态（存在时列表展示搜索结果）
+  const searchIdRef = useRef<string | undefined>(undefined); // 当前搜索 ID
+  const searchOptionsRef = useRef<SearchOptions | undefined>(undefined); // 当前搜索选项（刷新时重新搜索）
+  const loadMoreRef = useRef<Promise<FileItem[]> | null>(null); // 正在加载的下一批
+  const anchorRef = useRef<string | undefined>(undefined); // Shift 范围选择的起点（文件路径）
+  const selectionBaseRef = useRef<FileItem[]>([]); // 框选开始时已选中的文件（追加框选时保留）
 
   const { message } = App.useApp();
 
@@ -101,24 +137,94 @@ const Directory: React.FC = () => {
           setWatermarkModalOpen(true);
         },
       },
+      {
+        key: DropdownMenuEnum.ICON_PACK,
+        label: <span>生成图标包</span>,
+        onClick: () => {
+          setSelectedFiles([item]);
+          setIconPackModalOpen(true);
+        },
+      },
     ];
+    if (isSvgFile(item)) {
+      menu.push({
+        key: DropdownMenuEnum.RASTERIZE,
+        label: <span>导出位图</span>,
+        onClick: () => {
+          setSelectedFiles([item]);
+          setRasterizeModalOpen(true);
+        },
+      });
+    }
     return menu;
   };
 
-  // 获取目录
+  // 获取目录（打开游标并读取第一批，其余条目在滚动时分批加载）
   const getDirectory = useCallback(
     async (path?: string) => {
       if (window.electronAPI) {
+        const requestId = ++directoryRequestRef.current;
         setLoading(true);
         setCurrentPath(path);
         setBatchOperation(false);
+        setSelectedFiles([]);
+        anchorRef.current = undefined;
+        // 进入目录时退出搜索
+        if (searchIdRef.current) {
+          window.electronAPI.cancelSearch(searchIdRef.current);
+          searchIdRef.current = undefined;
+          searchOptionsRef.current = undefined;
+          setSearch(undefined);
+        }
+        if (cursorRef.current) {
+          window.electronAPI.closeDirectoryCursor(cursorRef.current);
+          cursorRef.current = undefined;
+        }
+        hasMoreRef.current = false;
         try {
-          const res = await window.electronAPI.getDirectoryContents(path);
-          setList(res);
-          if (!res.length) setIsEmpty(true);
-          else setIsEmpty(false);
-          const breadcrumbList = window.electronAPI.getBreadcrumbList(path);
+          const { cursorId } = await window.electronAPI.openDirectoryCursor(
+            path,
+            listOptionsRef.current
+          );
+          // 打开期间已切换到其他目录：关闭这个游标，不再使用
+          if (directoryRequestRef.current !== requestId) {
+            window.electronAPI.closeDirectoryCursor(cursorId);
+            return;
+          }
+          cursorRef.current = cursorId;
+          let batch;
+          try {
+            batch = await window.electronAPI.readDirectoryCursor(
+              cursorId,
+              BATCH_SIZE
+            );
+          } catch (error) {
+            // 切换目录会关闭旧游标，旧游标上进行中的读取随之失败，直接忽略
+            if (cursorRef.current !== cursorId) return;
+            throw error;
+          }
+          if (cursorRef.current !== cursorId) return; // 已切换到其他目录
+          hasMoreRef.current = !batch.done;
+          setList(batch.items);
+          setListKey(cursorId);
+          const breadcrumbList = await window.electronAPI.getBreadcrumbList(
+            path
+          );
           setBreadcrumb(breadcrumbList);
+          // 监听当前目录，外部新增/删除/修改的文件会自动同步到列表
+          if (watchIdRef.current) {
+            window.electronAPI.unwatchDirectory(watchIdRef.current);
+            watchIdRef.current = null;
+          }
+          const watchId = await window.electronAPI.watchDirectory(
+            path,
+            listOptionsRef.current
+          );
+          if (cursorRef.current !== cursorId) {
+            if (watchId) window.electronAPI.unwatchDirectory(watchId);
+            return;
+          }
+          watchIdRef.current = watchId;
         } finally {
           setLoading(false);
         }
@@ -127,30 +233,193 @@ const Directory: React.FC = () => {
     [
       setCurrentPath,
       setList,
-      setIsEmpty,
+      setListKey,
       setBreadcrumb,
       setLoading,
       setBatchOperation,
+      setSelectedFiles,
+      setSearch,
     ]
   );
 
-  // 记录选中的文件
-  const handleCheckboxChange = (item: FileItem, checked: boolean) => {
-    if (checked) {
-      if (selectedFiles.length >= 10) {
-        message.warning("为避免可能出现的性能问题，一次最多勾选10个文件");
-        return;
+  // 在当前目录下递归搜索，结果分批追加到列表
+  const startSearch = async (options: SearchOptions) => {
+    if (!window.electronAPI) return;
+    if (searchIdRef.current) {
+      window.electronAPI.cancelSearch(searchIdRef.current);
+    }
+    const searchId = crypto.randomUUID();
+    searchIdRef.current = searchId;
+    searchOptionsRef.current = options;
+    hasMoreRef.current = false; // 搜索结果不走目录游标分页
+    setBatchOperation(false);
+    setSelectedFiles([]);
+    anchorRef.current = undefined;
+    setList([]);
+    setListKey(searchId);
+    setSearch({
+      query: options.query,
+      running: true,
+      total: 0,
+      truncated: false,
+    });
+    await window.electronAPI.searchDirectory(searchId, currentPath, options);
+  };
+
+  // 退出搜索，回到当前目录
+  const exitSearch = () => {
+    if (!searchIdRef.current) return;
+    getDirectory(currentPath);
+  };
+
+  // 滚动到底部附近时加载下一批，返回本批新增的条目（正在加载时复用同一请求）
+  const loadMore = useCallback((): Promise<FileItem[]> => {
+    const cursorId = cursorRef.current;
+    if (!window.electronAPI || !cursorId) return Promise.resolve([]);
+    if (loadMoreRef.current) return loadMoreRef.current;
+    if (!hasMoreRef.current) return Promise.resolve([]);
+    const request = (async () => {
+      try {
+        const batch = await window.electronAPI!.readDirectoryCursor(
+          cursorId,
+          BATCH_SIZE
+        );
+        if (cursorRef.current !== cursorId) return []; // 已切换到其他目录
+        hasMoreRef.current = !batch.done;
+        setList((draft) => {
+          draft.push(...batch.items);
+        });
+        return batch.items;
+      } catch (error) {
+        if (cursorRef.current !== cursorId) return []; // 旧游标已关闭
+        hasMoreRef.current = false;
+        console.error("加载更多失败:", error);
+        return [];
+      } finally {
+        loadMoreRef.current = null;
       }
-      const next = [...selectedFiles, item];
-      setSelectedFiles(next);
+    })();
+    loadMoreRef.current = request;
+    return request;
+  }, [setList]);
+
+  // 读取当前目录剩余的全部条目（全选、反选需要覆盖尚未滚动到的文件）
+  const loadAllItems = async (): Promise<FileItem[]> => {
+    const cursorId = cursorRef.current;
+    const rest: FileItem[] = [];
+    while (hasMoreRef.current && cursorRef.current === cursorId) {
+      rest.push(...(await loadMore()));
+    }
+    return rest.length ? [...list, ...rest] : list;
+  };
+
+  // 已选中文件的路径集合，用于快速判断选中状态
+  const selectedPaths = useMemo(
+    () => new Set(selectedFiles.map((file) => file.path)),
+    [selectedFiles]
+  );
+
+  // 只有图片可以被选中进行批量操作
+  const isSelectable = (item: FileItem) => item.type === FileItemTypeEnum.IMAGE;
+
+  // 替换当前选择，有选中文件时自动进入批量操作
+  const updateSelection = (files: FileItem[]) => {
+    setSelectedFiles(files);
+    if (files.length) setBatchOperation(true);
+  };
+
+  // 切换单个文件的选中状态
+  const toggleSelection = (item: FileItem) => {
+    anchorRef.current = item.path;
+    if (selectedPaths.has(item.path)) {
+      updateSelection(selectedFiles.filter((file) => file.path !== item.path));
     } else {
-      setSelectedFiles(selectedFiles.filter((file) => file.path !== item.path));
+      updateSelection([...selectedFiles, item]);
     }
   };
 
+  // 从上次点击的文件到当前文件范围选择
+  const selectRange = (index: number, additive: boolean) => {
+    const anchorIndex = anchorRef.current
+      ? list.findIndex((file) => file.path === anchorRef.current)
+      : -1;
+    if (anchorIndex === -1) {
+      toggleSelection(list[index]);
+      return;
+    }
+    const [from, to] =
+      anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+    const range = list.slice(from, to + 1).filter(isSelectable);
+    if (!additive) {
+      updateSelection(range);
+      return;
+    }
+    const rangePaths = new Set(range.map((file) => file.path));
+    updateSelection([
+      ...selectedFiles.filter((file) => !rangePaths.has(file.path)),
+      ...range,
+    ]);
+  };
+
+  // Ctrl/Command 点击切换选中，Shift 点击范围选择（不打开预览）
+  const handleItemClickCapture = (
+    e: React.MouseEvent,
+    item: FileItem,
+    index: number
+  ) => {
+    const toggle = e.ctrlKey || e.metaKey;
+    if (!toggle && !e.shiftKey) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.shiftKey) {
+      selectRange(index, toggle);
+    } else {
+      toggleSelection(item);
+    }
+  };
+
+  // 框选开始：追加框选时保留已有选择
+  const handleSelectStart = (additive: boolean) => {
+    selectionBaseRef.current = additive ? selectedFiles : [];
+  };
+
+  // 框选范围变化
+  const handleSelectArea = (indices: number[]) => {
+    const base = selectionBaseRef.current;
+    const basePaths = new Set(base.map((file) => file.path));
+    const picked = indices
+      .map((index) => list[index])
+      .filter((item) => isSelectable(item) && !basePaths.has(item.path));
+    const next = [...base, ...picked];
+    if (!next.length && !selectedFiles.length) return;
+    updateSelection(next);
+  };
+
+  // 全选
+  const selectAll = async () => {
+    const items = await loadAllItems();
+    updateSelection(items.filter(isSelectable));
+  };
+
+  // 反选
+  const invertSelection = async () => {
+    const items = await loadAllItems();
+    updateSelection(
+      items.filter(
+        (item) => isSelectable(item) && !selectedPaths.has(item.path)
+      )
+    );
+  };
+
+  // 清空选择
+  const clearSelection = () => {
+    anchorRef.current = undefined;
+    setSelectedFiles([]);
+  };
+
   // 点击批量操作
   const handleBatchOperationChange = () => {
-    setSelectedFiles([]);
+    clearSelection();
     setBatchOperation(!batchOperation);
   };
 
@@ -170,7 +439,7 @@ const Directory: React.FC = () => {
             const success = await window.electronAPI?.deleteFile(files);
             if (success) {
               message.success("删除成功");
-              await getDirectory(currentPath);
+              await reloadList();
               setSelectedFiles((draft) => {
                 return draft.filter((file) => !files.includes(file.path));
               });
@@ -185,16 +454,120 @@ const Directory: React.FC = () => {
     }
   };
 
+  // 修改排序或筛选条件后重新读取当前目录
+  const handleListOptionsChange = (options: DirectoryListOptions) => {
+    listOptionsRef.current = options;
+    setListOptions(options);
+    getDirectory(currentPath);
+  };
+
+  // 重新读取列表（搜索中则重新搜索）
+  const reloadList = async () => {
+    if (searchIdRef.current && searchOptionsRef.current) {
+      await startSearch(searchOptionsRef.current);
+    } else {
+      await getDirectory(currentPath);
+    }
+  };
+
   // 刷新列表
   const refreshList = () => {
     setBatchOperation(false);
-    getDirectory(currentPath);
+    reloadList();
   };
 
   useEffect(() => {
     getDirectory();
   }, [getDirectory]);
 
+  // 卸载时关闭游标并停止监听
+  useEffect(() => {
+    return () => {
+      if (cursorRef.current) {
+        window.electronAPI?.closeDirectoryCursor(cursorRef.current);
+      }
+      if (watchIdRef.current) {
+        window.electronAPI?.unwatchDirectory(watchIdRef.current);
+      }
+    };
+  }, []);
+
+  // 目录变化时只更新受影响的条目，无需重新读取整个目录
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    return window.electronAPI.onDirectoryChange((change) => {
+      if (change.watchId !== watchIdRef.current) return;
+      if (searchIdRef.current) return; // 搜索结果不随当前目录变化
+      const removed = new Set(change.removed);
+      setList((draft) => {
+        for (let i = draft.length - 1; i >= 0; i--) {
+          if (removed.has(draft[i].path)) draft.splice(i, 1);
+        }
+        const { sort, filter } = listOptionsRef.current;
+        // 修改后的条目可能不再满足筛选条件或需要换位置，移除后按新增处理
+        // （尚未加载到的条目由游标后续批次返回，这里不提前插入）
+        const reinserted = change.changed.filter((item) => {
+          const idx = draft.findIndex((v) => v.path === item.path);
+          if (idx >= 0) draft.splice(idx, 1);
+          return idx >= 0;
+        });
+        for (const item of [...reinserted, ...change.added]) {
+          if (draft.some((v) => v.path === item.path)) continue;
+          if (!matchesFilter(item, filter)) continue;
+          // 按与主进程一致的排序规则插入
+          const idx = draft.findIndex(
+            (v) => compareFileItems(item, v, sort) < 0
+          );
+          if (idx === -1) draft.push(item);
+          else draft.splice(idx, 0, item);
+        }
+      });
+      if (removed.size) {
+        setSelectedFiles((draft) =>
+          draft.filter((file) => !removed.has(file.path))
+        );
+      }
+    });
+  }, [setList, setSelectedFiles]);
+
+  // 接收搜索结果
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    return window.electronAPI.onSearchEvent((event) => {
+      if (event.searchId !== searchIdRef.current) return;
+      if (event.type === "match") {
+        setList((draft) => {
+          draft.push(...event.items);
+        });
+      } else {
+        setSearch((draft) => {
+          if (!draft) return;
+          draft.running = false;
+          draft.total = event.total;
+          draft.truncated = event.truncated;
+        });
+      }
+    });
+  }, [setList, setSearch]);
+
+  // 快捷键：Ctrl/Command + A 全选，Esc 取消选择
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable], .ant-modal")) {
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "a") {
+        e.preventDefault();
+        selectAll();
+      } else if (e.key === "Escape" && selectedFiles.length) {
+        clearSelection();
+      }
+    };
+    window.addEventListener("keydown", handler);
+    return () => window.removeEventListener("keydown", handler);
+  });
+
   useEffect(() => {
     const handler = (e: Event) => {
       const ce = e as CustomEvent<string>;
@@ -204,7 +577,8 @@ const Directory: React.FC = () => {
       }
     };
     window.addEventListener("refresh-directory", handler as EventListener);
-    return () => window.removeEventListener("refresh-directory", handler as EventListener);
+    return () =>
+      window.removeEventListener("refresh-directory", handler as EventListener);
   }, [getDirectory]);
 
   // 动态显示文件类型
@@ -214,11 +588,12 @@ const Directory: React.FC = () => {
       return (
         <div
           className={styles.fileBox}
-          key={index}
           onDoubleClick={() => getDirectory(item.path)}
         >
           <div className={styles.folderItem}></div>
-          <div className={styles.fileName}>{item.name}</div>
+          <div className={styles.fileName} title={item.path}>
+            {item.name}
+          </div>
         </div>
       );
     }
@@ -228,26 +603,34 @@ const Directory: React.FC = () => {
         <Dropdown
           menu={{ items: getDropdownMenu(item) }}
           trigger={["contextMenu"]}
-          key={index}
         >
-          <div className={styles.fileBox}>
+          <div
+            className={`${styles.fileBox} ${
+              selectedPaths.has(item.path) ? styles.selected : ""
+            }`}
+            onClickCapture={(e) => handleItemClickCapture(e, item, index)}
+          >
             <div className={styles.imgBox}>
-              <Image src={item.imageBase64} className={styles.img} />
+              <Image
+                src={item.thumbnailUrl}
+                preview={{ src: item.originalUrl }}
+                className={styles.img}
+              />
               {batchOperation && (
                 <Checkbox
-                  onChange={(e) => handleCheckboxChange(item, e.target.checked)}
+                  onChange={() => toggleSelection(item)}
                   className={styles.checkbox}
                   style={{
                     transform: "scale(2)",
                     transformOrigin: "0 0",
                   }}
-                  checked={selectedFiles.some(
-                    (file) => file.path === item.path
-                  )}
+                  checked={selectedPaths.has(item.path)}
                 ></Checkbox>
               )}
             </div>
-            <div className={styles.fileName}>{item.name}</div>
+            <div className={styles.fileName} title={item.path}>
+              {item.name}
+            </div>
           </div>
         </Dropdown>
       );
@@ -260,20 +643,53 @@ const Directory: React.FC = () => {
       <div className={styles.headerBox}>
         <Breadcrumb
           separator=">"
-          items={breadcrumb.map((item) => ({
-            title: item.title,
-            path: item.path,
-            onClick: () => {
-              getDirectory(item.path);
-            },
-          }))}
+          items={[
+            ...breadcrumb.map((item) => ({
+              title: item.title,
+              path: item.path,
+              onClick: () => {
+                getDirectory(item.path);
+              },
+            })),
+            ...(search
+              ? [
+                  {
+                    title: (
+                      <span className={styles.searchTitle}>
+                        搜索“{search.query}”
+                        {search.running
+                          ? "（搜索中…）"
+                          : `（共 ${search.total} 个结果${
+                              search.truncated ? "，已达上限" : ""
+                            }）`}
+                        <Button size="small" type="link" onClick={exitSearch}>
+                          返回目录
+                        </Button>
+                      </span>
+                    ),
+                  },
+                ]
+              : []),
+          ]}
         />
-        <Checkbox
-          checked={batchOperation}
-          onChange={handleBatchOperationChange}
-        >
-          批量操作
-        </Checkbox>
+        <div className={styles.headerActions}>
+          <SearchBar
+            onSearch={startSearch}
+            onClear={exitSearch}
+            disabled={loading}
+          />
+          <SortFilterBar
+            value={listOptions}
+            onChange={handleListOptionsChange}
+            disabled={loading || !!search}
+          />
+          <Checkbox
+            checked={batchOperation}
+            onChange={handleBatchOperationChange}
+          >
+            批量操作
+          </Checkbox>
+        </div>
       </div>
       {/* 目录列表 */}
       <div className={styles.directoryItemList}>
@@ -290,12 +706,21 @@ const Directory: React.FC = () => {
               />
             </div>
           ))
-        ) : isEmpty ? (
+        ) : !list.length && !search?.running ? (
           <div className={styles.emptyContainer}>
             <Empty />
           </div>
         ) : (
-          list.map((item, index) => showFileType(item, index))
+          <VirtualGrid
+            key={listKey}
+            items={list}
+            itemWidth={ITEM_WIDTH}
+            itemHeight={ITEM_HEIGHT}
+            renderItem={showFileType}
+            onEndReached={loadMore}
+            onSelectStart={handleSelectStart}
+            onSelectArea={handleSelectArea}
+          />
         )}
       </div>
       {/* 批量操作 */}
@@ -304,6 +729,17 @@ const Directory: React.FC = () => {
           <span>当前已选择</span>
           <span style={{ color: "#40a9ff" }}>{selectedFiles.length}</span>
           <span>个文件</span>
+          <Button type="link" onClick={selectAll}>
+            全选
+          </Button>
+          <Button type="link" onClick={invertSelection}>
+            反选
+          </Button>
+          {selectedFiles.length > 0 && (
+            <Button type="link" onClick={clearSelection}>
+              取消选择
+            </Button>
+          )}
           {selectedFiles.length > 0 && (
             <div className={styles.batchOperationButtonBox}>
               <Button
@@ -327,7 +763,15 @@ const Directory: React.FC = () => {
               >
                 批量格式转换
               </Button>
-              
+              {selectedFiles.some(isSvgFile) && (
+                <Button
+                  color="primary"
+                  variant="text"
+                  onClick={() => setRasterizeModalOpen(true)}
+                >
+                  批量导出 SVG
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -369,6 +813,20 @@ const Directory: React.FC = () => {
         onCancel={() => setCropModalOpen(false)}
         selectedFiles={selectedFiles}
       />
+      <IconPackModal
+        open={iconPackModalOpen}
+        currentDirectory={currentPath!}
+        onOk={refreshList}
+        onCancel={() => setIconPackModalOpen(false)}
+        selectedFiles={selectedFiles}
+      />
+      <RasterizeSvgModal
+        open={rasterizeModalOpen}
+        currentDirectory={currentPath!}
+        onOk={refreshList}
+        onCancel={() => setRasterizeModalOpen(false)}
+        selectedFiles={selectedFiles}
+      />
       {/* 详情弹窗 */}
       <DetailsModal
         open={detailsModalOpen}
@@ -376,6 +834,8 @@ const Directory: React.FC = () => {
         onCancel={() => setDetailsModalOpen(false)}
         file={currentFile.current!}
       />
+      {/* 批量任务进度 */}
+      <JobProgressPanel />
     </div>
   );
 };
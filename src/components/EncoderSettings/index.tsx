@@ -0,0 +1,213 @@
+import {
+  DEFAULT_ENCODER_SETTINGS,
+  saveEncoderSettings,
+  type EncoderFormat,
+} from "@/utils/encoderSettings";
+import {
+  Button,
+  Form,
+  InputNumber,
+  Select,
+  Slider,
+  Switch,
+  Tabs,
+  type TabsProps,
+} from "antd";
+import React, { useState } from "react";
+
+export interface EncoderSettingsProps {
+  name?: string; // 表单中的字段名，默认 "encoders"
+}
+
+const CHROMA_OPTIONS = [
+  { value: "4:2:0", label: "4:2:0（体积更小）" },
+  { value: "4:4:4", label: "4:4:4（保留色彩细节）" },
+];
+
+const TIFF_COMPRESSION_OPTIONS = [
+  { value: "jpeg", label: "JPEG（有损）" },
+  { value: "deflate", label: "Deflate（无损）" },
+  { value: "lzw", label: "LZW（无损）" },
+  { value: "packbits", label: "PackBits（无损）" },
+  { value: "none", label: "不压缩" },
+];
+
+const TIFF_PREDICTOR_OPTIONS = [
+  { value: "horizontal", label: "水平" },
+  { value: "float", label: "浮点" },
+  { value: "none", label: "无" },
+];
+
+/**
+ * 各格式的高级编码设置（需放在 Form 中使用，字段为 [name, 格式, 设置项]）
+ */
+const EncoderSettings: React.FC<EncoderSettingsProps> = ({
+  name = "encoders",
+}) => {
+  const form = Form.useFormInstance();
+  const [activeFormat, setActiveFormat] = useState<EncoderFormat>("jpeg");
+
+  const item = (
+    format: EncoderFormat,
+    field: string,
+    label: string,
+    input: React.ReactNode,
+    isSwitch = false
+  ) => (
+    <Form.Item
+      label={label}
+      name={[name, format, field]}
+      valuePropName={isSwitch ? "checked" : "value"}
+    >
+      {input}
+    </Form.Item>
+  );
+
+  const items: TabsProps["items"] = [
+    {
+      key: "jpeg",
+      forceRender: true, // 未打开的标签页也要注册表单项，提交时才能拿到值
+      label: "JPEG",
+      children: (
+        <>
+          {item("jpeg", "progressive", "渐进式", <Switch />, true)}
+          {item(
+            "jpeg",
+            "chromaSubsampling",
+            "色度抽样",
+            <Select options={CHROMA_OPTIONS} />
+          )}
+        </>
+      ),
+    },
+    {
+      key: "png",
+      forceRender: true,
+      label: "PNG",
+      children: (
+        <>
+          {item("png", "progressive", "隔行扫描", <Switch />, true)}
+          {item("png", "palette", "调色板量化", <Switch />, true)}
+          {item(
+            "png",
+            "colors",
+            "调色板颜色数",
+            <InputNumber min={2} max={256} precision={0} />
+          )}
+          {item(
+            "png",
+            "dither",
+            "抖动强度",
+            <Slider min={0} max={1} step={0.1} />
+          )}
+        </>
+      ),
+    },
+    {
+      key: "webp",
+      forceRender: true,
+      label: "WebP",
+      children: (
+        <>
+          {item("webp", "effort", "压缩力度", <Slider min={0} max={6} />)}
+          {item("webp", "nearLossless", "近无损", <Switch />, true)}
+        </>
+      ),
+    },
+    {
+      key: "avif",
+      forceRender: true,
+      label: "AVIF",
+      children: (
+        <>
+          {item("avif", "effort", "压缩力度", <Slider min={0} max={9} />)}
+          {item(
+            "avif",
+            "chromaSubsampling",
+            "色度抽样",
+            <Select options={CHROMA_OPTIONS} />
+          )}
+        </>
+      ),
+    },
+    {
+      key: "tiff",
+      forceRender: true,
+      label: "TIFF",
+      children: (
+        <>
+          {item(
+            "tiff",
+            "compression",
+            "压缩方式",
+            <Select options={TIFF_COMPRESSION_OPTIONS} />
+          )}
+          {item(
+            "tiff",
+            "predictor",
+            "预测器",
+            <Select options={TIFF_PREDICTOR_OPTIONS} />
+          )}
+        </>
+      ),
+    },
+    {
+      key: "gif",
+      forceRender: true,
+      label: "GIF",
+      children: (
+        <>
+          {item(
+            "gif",
+            "colors",
+            "最大颜色数",
+            <InputNumber min={2} max={256} precision={0} />
+          )}
+          {item(
+            "gif",
+            "dither",
+            "抖动强度",
+            <Slider min={0} max={1} step={0.1} />
+          )}
+          {item("gif", "effort", "压缩力度", <Slider min={1} max={10} />)}
+        </>
+      ),
+    },
+    {
+      key: "svg",
+      forceRender: true,
+      label: "SVG",
+      children: item(
+        "svg",
+        "precision",
+        "小数位数",
+        <InputNumber min={0} max={8} precision={0} />
+      ),
+    },
+  ];
+
+  return (
+    <Tabs
+      size="small"
+      activeKey={activeFormat}
+      onChange={(key) => setActiveFormat(key as EncoderFormat)}
+      items={items}
+      tabBarExtraContent={
+        <Button
+          size="small"
+          type="link"
+          onClick={() => {
+            // setFieldValue 不会触发 onValuesChange，这里直接保存
+            const defaults = DEFAULT_ENCODER_SETTINGS[activeFormat];
+            form.setFieldValue([name, activeFormat], defaults);
+            saveEncoderSettings({ [activeFormat]: defaults });
+          }}
+        >
+          恢复默认
+        </Button>
+      }
+    />
+  );
+};
+
+export default EncoderSettings;
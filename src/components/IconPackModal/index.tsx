@@ -0,0 +1,212 @@
+import type { FileItem, IconPackResult } from "@/types";
+import {
+  Alert,
+  App,
+  Checkbox,
+  ColorPicker,
+  Form,
+  Input,
+  Modal,
+  Tag,
+  Typography,
+  type ModalProps,
+} from "antd";
+import React, { useEffect, useState } from "react";
+import SelectDir from "../SelectDir";
+
+export interface IconPackModalProps extends ModalProps {
+  open: boolean;
+  onOk?: () => void;
+  onCancel?: () => void;
+  selectedFiles: FileItem[];
+  currentDirectory: string;
+}
+
+export type FormType = {
+  outputDir: string;
+  isUseCurrentDir: boolean;
+  appName?: string;
+  shortName?: string;
+  themeColor: string;
+  backgroundColor: string;
+};
+
+// ColorPicker 的值是颜色对象，表单中保存为 #rrggbb
+const toHex = (color: { toHexString: () => string }) =>
+  color.toHexString().slice(0, 7);
+
+const codeStyle: React.CSSProperties = {
+  maxHeight: 160,
+  overflow: "auto",
+  whiteSpace: "pre",
+  fontSize: 12,
+};
+
+/**
+ * 生成图标包：从一张图片生成 favicon.ico、Apple touch 与 Android/PWA 图标，
+ * 完成后展示 manifest 与 <link> 标签供复制
+ */
+const IconPackModal: React.FC<IconPackModalProps> = ({
+  open,
+  onOk,
+  onCancel,
+  selectedFiles,
+  currentDirectory,
+  ...rest
+}) => {
+  const [form] = Form.useForm<FormType>();
+  const isUseCurrentDir = Form.useWatch("isUseCurrentDir", form);
+  const [confirmLoading, setConfirmLoading] = useState(false);
+  const [result, setResult] = useState<IconPackResult>();
+  const { message } = App.useApp();
+  const file = selectedFiles[0];
+
+  const onFinish = async (values: FormType) => {
+    if (!window.electronAPI || !file) return;
+    if (values.isUseCurrentDir) {
+      values.outputDir = currentDirectory;
+    }
+    setConfirmLoading(true);
+    try {
+      const res = await window.electronAPI.generateIconPack(
+        file,
+        values.outputDir,
+        {
+          appName: values.appName,
+          shortName: values.shortName,
+          themeColor: values.themeColor,
+          backgroundColor: values.backgroundColor,
+        }
+      );
+      setResult(res);
+      message.success("图标包已生成");
+      window.dispatchEvent(
+        new CustomEvent<string>("refresh-directory", {
+          detail: values.outputDir,
+        })
+      );
+      onOk?.();
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setConfirmLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setResult(undefined);
+      form.setFieldsValue({
+        isUseCurrentDir: true,
+        outputDir: currentDirectory,
+        appName: undefined,
+        shortName: undefined,
+        themeColor: "#ffffff",
+        backgroundColor: "#ffffff",
+      });
+    }
+  }, [open, form, currentDirectory]);
+
+  return (
+    <Modal
+      {...rest}
+      title="生成图标包"
+      open={open}
+      okText={result ? "完成" : "生成"}
+      onOk={() => (result ? onCancel?.() : form.submit())}
+      onCancel={() => onCancel?.()}
+      cancelButtonProps={{ style: result ? { display: "none" } : undefined }}
+      confirmLoading={confirmLoading}
+      maskClosable={false}
+      keyboard={false}
+      width={600}
+    >
+      {result ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+          {result.upscaled && (
+            <Alert
+              type="warning"
+              showIcon
+              message="原图小于 512×512，大尺寸图标由放大得到，可能不够清晰"
+            />
+          )}
+          <Typography.Text>已生成到：{result.outputDir}</Typography.Text>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 4 }}>
+            {result.files.map((name) => (
+              <Tag bordered={false} key={name}>
+                {name}
+              </Tag>
+            ))}
+          </div>
+          <Typography.Text strong>放在 &lt;head&gt; 中的标签</Typography.Text>
+          <Typography.Paragraph
+            code
+            copyable={{ text: result.html }}
+            style={codeStyle}
+          >
+            {result.html}
+          </Typography.Paragraph>
+          <Typography.Text strong>manifest.webmanifest</Typography.Text>
+          <Typography.Paragraph
+            code
+            copyable={{ text: result.manifest }}
+            style={codeStyle}
+          >
+            {result.manifest}
+          </Typography.Paragraph>
+        </div>
+      ) : (
+        <Form layout="vertical" form={form} onFinish={onFinish}>
+          <Form.Item<FormType> label="源图片">
+            {file && (
+              <Tag bordered={false} color="processing">
+                {file.name}
+              </Tag>
+            )}
+          </Form.Item>
+          <Form.Item<FormType> label="应用名称" name="appName">
+            <Input maxLength={128} placeholder="默认使用文件名" />
+          </Form.Item>
+          <Form.Item<FormType> label="短名称" name="shortName">
+            <Input maxLength={64} placeholder="默认与应用名称相同" />
+          </Form.Item>
+          <div style={{ display: "flex", gap: 24 }}>
+            <Form.Item<FormType>
+              label="主题色"
+              name="themeColor"
+              getValueFromEvent={toHex}
+            >
+              <ColorPicker disabledAlpha showText />
+            </Form.Item>
+            <Form.Item<FormType>
+              label="背景色"
+              name="backgroundColor"
+              getValueFromEvent={toHex}
+              tooltip="用于 Apple touch 图标的透明区域与 manifest 的 background_color"
+            >
+              <ColorPicker disabledAlpha showText />
+            </Form.Item>
+          </div>
+          <Form.Item<FormType>
+            label="输出目录"
+            name="isUseCurrentDir"
+            valuePropName="checked"
+          >
+            <Checkbox>当前目录</Checkbox>
+          </Form.Item>
+          {!isUseCurrentDir && (
+            <Form.Item<FormType>
+              label="选择目录"
+              name="outputDir"
+              rules={[{ required: true, message: "请选择输出目录" }]}
+            >
+              <SelectDir />
+            </Form.Item>
+          )}
+        </Form>
+      )}
+    </Modal>
+  );
+};
+
+export default IconPackModal;
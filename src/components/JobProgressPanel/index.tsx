@@ -0,0 +1,217 @@
+import {
+  JobFileStatusEnum,
+  JobKindEnum,
+  type JobFileProgress,
+  type JobProgressEvent,
+} from "@/types";
+import { formatBytes } from "@/utils/fileSize";
+import { Button, InputNumber, Progress, Tag, Tooltip } from "antd";
+import React, { useEffect } from "react";
+import { useImmer } from "use-immer";
+import styles from "./index.module.scss";
+
+const CONCURRENCY_STORAGE_KEY = "jobConcurrency"; // 并发数本地存储键名
+const DEFAULT_CONCURRENCY = 4;
+
+const KIND_LABELS: Record<JobKindEnum, string> = {
+  [JobKindEnum.COMPRESS]: "压缩",
+  [JobKindEnum.CONVERT]: "格式转换",
+  [JobKindEnum.WATERMARK]: "加水印",
+  [JobKindEnum.RASTERIZE]: "SVG 导出",
+};
+
+const STATUS_TAGS: Record<JobFileStatusEnum, { color: string; text: string }> =
+  {
+    [JobFileStatusEnum.QUEUED]: { color: "default", text: "排队中" },
+    [JobFileStatusEnum.RUNNING]: { color: "processing", text: "处理中" },
+    [JobFileStatusEnum.DONE]: { color: "success", text: "完成" },
+    [JobFileStatusEnum.FAILED]: { color: "error", text: "失败" },
+    [JobFileStatusEnum.CANCELLED]: { color: "warning", text: "已取消" },
+  };
+
+type JobState = {
+  jobId: string;
+  kind: JobKindEnum;
+  files: JobFileProgress[];
+  finished: boolean; // 是否已全部处理完
+  cancelling: boolean; // 是否已请求取消
+  expanded: boolean; // 是否展开文件列表
+};
+
+const readConcurrency = () => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+  return stored >= 1 ? stored : DEFAULT_CONCURRENCY;
+};
+
+const fileName = (filePath: string) => filePath.split(/[\\/]/).pop();
+
+/**
+ * 批量任务进度面板：列出进行中与已结束任务的每个文件状态
+ */
+const JobProgressPanel: React.FC = () => {
+  const [jobs, setJobs] = useImmer<JobState[]>([]);
+  const [concurrency, setConcurrency] = useImmer(readConcurrency);
+
+  // 同步并发数到主进程的任务队列
+  useEffect(() => {
+    window.electronAPI?.setJobConcurrency(concurrency);
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(concurrency));
+  }, [concurrency]);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    return window.electronAPI.onJobProgress((event: JobProgressEvent) => {
+      setJobs((draft) => {
+        if (event.type === "start") {
+          draft.unshift({
+            jobId: event.jobId,
+            kind: event.kind,
+            files: event.files.map((inputPath) => ({
+              inputPath,
+              status: JobFileStatusEnum.QUEUED,
+            })),
+            finished: false,
+            cancelling: false,
+            expanded: true,
+          });
+          return;
+        }
+        const job = draft.find((v) => v.jobId === event.jobId);
+        if (!job) return;
+        if (event.type === "file") {
+          job.files[event.index] = event.file;
+        } else {
+          job.finished = true;
+        }
+      });
+    });
+  }, [setJobs]);
+
+  // 取消任务：排队的文件不再处理，处理中的文件完成后丢弃输出
+  const cancelJob = (jobId: string) => {
+    window.electronAPI?.cancelJob(jobId);
+    setJobs((draft) => {
+      const job = draft.find((v) => v.jobId === jobId);
+      if (job) job.cancelling = true;
+    });
+  };
+
+  if (!jobs.length) return null;
+
+  return (
+    <div className={styles.jobProgressPanel}>
+      <div className={styles.panelHeader}>
+        <span>任务进度</span>
+        <span className={styles.concurrency}>
+          并发数
+          <InputNumber
+            size="small"
+            min={1}
+            max={16}
+            value={concurrency}
+            onChange={(v) => v && setConcurrency(v)}
+          />
+        </span>
+        <Button
+          size="small"
+          type="link"
+          disabled={!jobs.some((v) => v.finished)}
+          onClick={() => setJobs((draft) => draft.filter((v) => !v.finished))}
+        >
+          清除已完成
+        </Button>
+      </div>
+      <div className={styles.jobList}>
+        {jobs.map((job) => {
+          const countOf = (status: JobFileStatusEnum) =>
+            job.files.filter((v) => v.status === status).length;
+          const failedCount = countOf(JobFileStatusEnum.FAILED);
+          const cancelledCount = countOf(JobFileStatusEnum.CANCELLED);
+          const finishedCount =
+            countOf(JobFileStatusEnum.DONE) + failedCount + cancelledCount;
+          return (
+            <div className={styles.job} key={job.jobId}>
+              <div
+                className={styles.jobTitle}
+                onClick={() =>
+                  setJobs((draft) => {
+                    const target = draft.find((v) => v.jobId === job.jobId);
+                    if (target) target.expanded = !target.expanded;
+                  })
+                }
+              >
+                <span>
+                  {KIND_LABELS[job.kind]} {finishedCount}/{job.files.length}
+                  {failedCount > 0 && `（${failedCount} 个失败）`}
+                  {cancelledCount > 0 && `（${cancelledCount} 个已取消）`}
+                </span>
+                <span className={styles.jobActions}>
+                  {!job.finished && (
+                    <Button
+                      size="small"
+                      type="link"
+                      danger
+                      disabled={job.cancelling}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        cancelJob(job.jobId);
+                      }}
+                    >
+                      {job.cancelling ? "取消中…" : "取消"}
+                    </Button>
+                  )}
+                  {job.expanded ? "收起" : "展开"}
+                </span>
+              </div>
+              <Progress
+                size="small"
+                percent={Math.round((finishedCount / job.files.length) * 100)}
+                status={
+                  !job.finished
+                    ? "active"
+                    : failedCount
+                    ? "exception"
+                    : cancelledCount
+                    ? "normal"
+                    : "success"
+                }
+              />
+              {job.expanded && (
+                <ul className={styles.fileList}>
+                  {job.files.map((file, index) => (
+                    <li key={index} className={styles.fileRow}>
+                      <span className={styles.name} title={file.inputPath}>
+                        {fileName(file.inputPath)}
+                      </span>
+                      {file.bytesOut !== undefined && (
+                        <span className={styles.size}>
+                          {formatBytes(file.bytesIn)} →{" "}
+                          {formatBytes(file.bytesOut)}
+                        </span>
+                      )}
+                      {file.detail && (
+                        <span className={styles.detail} title={file.detail}>
+                          {file.detail}
+                        </span>
+                      )}
+                      <Tooltip title={file.error}>
+                        <Tag
+                          bordered={false}
+                          color={STATUS_TAGS[file.status].color}
+                        >
+                          {STATUS_TAGS[file.status].text}
+                        </Tag>
+                      </Tooltip>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default JobProgressPanel;
@@ -0,0 +1,280 @@
+import type { FileItem, RasterizeOptions } from "@/types";
+import {
+  CONVERT_FORMATS,
+  DEFAULT_FLATTEN_BACKGROUND,
+  RASTERIZE_FORMATS,
+  type RasterizeFormat,
+} from "@/utils/format";
+import {
+  App,
+  Checkbox,
+  ColorPicker,
+  Form,
+  InputNumber,
+  Modal,
+  Radio,
+  Slider,
+  Space,
+  Tag,
+  type ModalProps,
+} from "antd";
+import React, { useEffect, useMemo, useState } from "react";
+import SelectDir from "../SelectDir";
+
+export interface RasterizeSvgModalProps extends ModalProps {
+  open: boolean;
+  onOk?: () => void;
+  onCancel?: () => void;
+  selectedFiles: FileItem[]; // 只处理其中的 SVG 文件
+  currentDirectory: string;
+}
+
+type SizeMode = "size" | "density"; // 按像素尺寸或渲染密度
+
+export type FormType = {
+  outputDir: string;
+  isUseCurrentDir: boolean;
+  format: RasterizeFormat; // 输出格式
+  sizeMode: SizeMode;
+  width?: number; // 1 倍图宽度
+  height?: number; // 1 倍图高度
+  density: number; // 渲染密度（DPI）
+  scales: number[]; // 导出倍数
+  useBackground: boolean; // 是否填充背景色
+  background: string; // 背景色
+  quality: number; // JPG、WebP 的质量
+};
+
+const SCALE_OPTIONS = [1, 2, 3, 4].map((scale) => ({
+  value: scale,
+  label: `${scale}x`,
+}));
+
+/**
+ * SVG 导出位图：按尺寸或渲染密度导出 PNG/WebP/JPG，可一次导出 1x/2x/3x 多个倍数
+ */
+const RasterizeSvgModal: React.FC<RasterizeSvgModalProps> = ({
+  open,
+  onOk,
+  onCancel,
+  selectedFiles,
+  currentDirectory,
+  ...rest
+}) => {
+  const [form] = Form.useForm<FormType>();
+  const isUseCurrentDir = Form.useWatch("isUseCurrentDir", form);
+  const format = Form.useWatch("format", form);
+  const sizeMode = Form.useWatch("sizeMode", form);
+  const useBackground = Form.useWatch("useBackground", form);
+  const [confirmLoading, setConfirmLoading] = useState(false);
+  const { message } = App.useApp();
+
+  const svgFiles = useMemo(
+    () => selectedFiles.filter((f) => f.name.toLowerCase().endsWith(".svg")),
+    [selectedFiles]
+  );
+  // JPG 不支持透明，未填充背景色时输出白色背景
+  const hasAlpha = !format || CONVERT_FORMATS[format].alpha;
+
+  const onFinish = async (values: FormType) => {
+    if (values.isUseCurrentDir) {
+      values.outputDir = currentDirectory;
+    }
+    if (!window.electronAPI) return;
+    if (svgFiles.length === 0) {
+      message.warning("请先选择 SVG 文件");
+      return;
+    }
+    const options: RasterizeOptions = {
+      format: values.format,
+      width: values.sizeMode === "size" ? values.width : undefined,
+      height: values.sizeMode === "size" ? values.height : undefined,
+      density: values.sizeMode === "density" ? values.density : undefined,
+      scales: values.scales,
+      background: values.useBackground ? values.background : undefined,
+      quality: values.format === "png" ? undefined : values.quality,
+    };
+    setConfirmLoading(true);
+    try {
+      // 任务加入队列后关闭弹窗，进度在任务面板中查看
+      const pending = window.electronAPI.rasterizeSvgs(
+        svgFiles.map((f) => f.path),
+        values.outputDir,
+        options,
+        { jobId: crypto.randomUUID() }
+      );
+      onCancel?.();
+      const res = await pending;
+      onOk?.();
+      if (res.success) {
+        message.success("导出成功");
+      } else if (res.cancelled) {
+        const done = res.results.filter((r) => r.success).length;
+        message.warning(`已取消，完成 ${done}/${res.results.length} 个文件`);
+      } else {
+        const failed = res.results.filter((r) => !r.success).length;
+        message.error(`有 ${failed} 个文件导出失败`);
+      }
+    } catch (error) {
+      message.error((error as Error).message);
+    } finally {
+      setConfirmLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      form.setFieldsValue({
+        isUseCurrentDir: true,
+        outputDir: currentDirectory,
+        format: "png",
+        sizeMode: "size",
+        width: undefined,
+        height: undefined,
+        density: 72,
+        scales: [1, 2, 3],
+        useBackground: false,
+        background: DEFAULT_FLATTEN_BACKGROUND,
+        quality: 90,
+      });
+    }
+  }, [open, form, currentDirectory]);
+
+  return (
+    <Modal
+      {...rest}
+      title="SVG 导出位图"
+      open={open}
+      onOk={() => form.submit()}
+      onCancel={() => onCancel?.()}
+      confirmLoading={confirmLoading}
+      maskClosable={false}
+      keyboard={false}
+    >
+      <Form layout="vertical" form={form} onFinish={onFinish}>
+        <Form.Item<FormType> label="已选 SVG">
+          <div
+            style={{
+              maxHeight: "160px",
+              overflowY: "auto",
+              display: "flex",
+              flexWrap: "wrap",
+              gap: "4px",
+            }}
+          >
+            {svgFiles.map((v) => (
+              <Tag bordered={false} color="processing" key={v.path}>
+                {v.name}
+              </Tag>
+            ))}
+          </div>
+        </Form.Item>
+        <Form.Item<FormType> label="输出格式" name="format">
+          <Radio.Group
+            optionType="button"
+            options={RASTERIZE_FORMATS.map((f) => ({
+              value: f,
+              label: CONVERT_FORMATS[f].label,
+            }))}
+          />
+        </Form.Item>
+        <Form.Item<FormType> label="1 倍图尺寸" name="sizeMode">
+          <Radio.Group>
+            <Radio value="size">像素尺寸</Radio>
+            <Radio value="density">渲染密度</Radio>
+          </Radio.Group>
+        </Form.Item>
+        {sizeMode === "density" ? (
+          <Form.Item<FormType>
+            name="density"
+            extra="72 DPI 为 SVG 的原始尺寸"
+            rules={[{ required: true, message: "请输入渲染密度" }]}
+          >
+            <InputNumber min={1} max={2400} addonAfter="DPI" />
+          </Form.Item>
+        ) : (
+          <Form.Item<FormType> extra="只填一边时按比例计算另一边；都不填时使用 SVG 的原始尺寸">
+            <Space>
+              <Form.Item<FormType> name="width" noStyle>
+                <InputNumber
+                  min={1}
+                  max={16384}
+                  precision={0}
+                  addonBefore="宽"
+                  addonAfter="px"
+                />
+              </Form.Item>
+              <Form.Item<FormType> name="height" noStyle>
+                <InputNumber
+                  min={1}
+                  max={16384}
+                  precision={0}
+                  addonBefore="高"
+                  addonAfter="px"
+                />
+              </Form.Item>
+            </Space>
+          </Form.Item>
+        )}
+        <Form.Item<FormType>
+          label="导出倍数"
+          name="scales"
+          extra="非 1 倍的文件名追加 @2x 等后缀，如 icon@2x.png"
+          rules={[
+            { required: true, type: "array", message: "请至少选择一个倍数" },
+          ]}
+        >
+          <Checkbox.Group options={SCALE_OPTIONS} />
+        </Form.Item>
+        <Form.Item<FormType> label="背景">
+          <Space>
+            <Form.Item<FormType>
+              name="useBackground"
+              valuePropName="checked"
+              noStyle
+            >
+              <Checkbox>填充背景色</Checkbox>
+            </Form.Item>
+            <Form.Item<FormType>
+              name="background"
+              noStyle
+              getValueFromEvent={(color: { toHexString: () => string }) =>
+                color.toHexString().slice(0, 7)
+              }
+            >
+              <ColorPicker disabledAlpha showText disabled={!useBackground} />
+            </Form.Item>
+          </Space>
+          {!useBackground && !hasAlpha && (
+            <div style={{ marginTop: 4, color: "rgba(0, 0, 0, 0.45)" }}>
+              JPG 不支持透明，透明区域将填充白色
+            </div>
+          )}
+        </Form.Item>
+        {format && format !== "png" && (
+          <Form.Item<FormType> label="质量" name="quality">
+            <Slider min={1} max={100} />
+          </Form.Item>
+        )}
+        <Form.Item<FormType>
+          label="输出目录"
+          name="isUseCurrentDir"
+          valuePropName="checked"
+        >
+          <Checkbox>当前目录</Checkbox>
+        </Form.Item>
+        {!isUseCurrentDir && (
+          <Form.Item<FormType>
+            label="选择目录"
+            name="outputDir"
+            rules={[{ required: true, message: "请选择输出目录" }]}
+          >
+            <SelectDir />
+          </Form.Item>
+        )}
+      </Form>
+    </Modal>
+  );
+};
+
+export default RasterizeSvgModal;
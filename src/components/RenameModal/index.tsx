@@ -45,7 +45,7 @@ const RenameModal: React.FC<RenameModalProps> = ({
         onCancel?.();
         onOk?.();
       } catch (error) {
-        message.error(error instanceof Error ? error.message : String(error));
+        message.error((error as Error).message ?? String(error));
       }
     }
   };
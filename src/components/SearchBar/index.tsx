@@ -0,0 +1,64 @@
+import { SearchModeEnum, type SearchOptions } from "@/types";
+import { Input, InputNumber, Select, Space } from "antd";
+import React, { useState } from "react";
+
+export interface SearchBarProps {
+  onSearch: (options: SearchOptions) => void; // 开始搜索
+  onClear: () => void; // 清空关键字，退出搜索
+  disabled?: boolean;
+}
+
+const MODE_OPTIONS = [
+  { label: "包含", value: SearchModeEnum.SUBSTRING },
+  { label: "通配符", value: SearchModeEnum.GLOB },
+];
+
+/**
+ * 递归搜索输入框：匹配方式 + 最大深度 + 关键字
+ */
+const SearchBar: React.FC<SearchBarProps> = ({
+  onSearch,
+  onClear,
+  disabled,
+}) => {
+  const [mode, setMode] = useState(SearchModeEnum.SUBSTRING);
+  const [maxDepth, setMaxDepth] = useState<number | null>(8);
+
+  return (
+    <Space.Compact size="small">
+      <Select
+        style={{ width: 90 }}
+        value={mode}
+        options={MODE_OPTIONS}
+        onChange={setMode}
+        disabled={disabled}
+      />
+      <InputNumber
+        style={{ width: 100 }}
+        min={0}
+        max={64}
+        value={maxDepth}
+        onChange={setMaxDepth}
+        prefix="深度"
+        disabled={disabled}
+      />
+      <Input.Search
+        style={{ width: 200 }}
+        allowClear
+        placeholder={mode === SearchModeEnum.GLOB ? "如 *.png" : "搜索文件名"}
+        disabled={disabled}
+        onSearch={(value) => {
+          const query = value.trim();
+          if (!query) {
+            // 点击清除或搜索空关键字时退出搜索
+            onClear();
+            return;
+          }
+          onSearch({ query, mode, maxDepth: maxDepth ?? undefined });
+        }}
+      />
+    </Space.Compact>
+  );
+};
+
+export default SearchBar;
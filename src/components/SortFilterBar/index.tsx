@@ -0,0 +1,198 @@
+import {
+  OrientationEnum,
+  SortKeyEnum,
+  type DirectoryFilter,
+  type DirectoryListOptions,
+} from "@/types";
+import {
+  Badge,
+  Button,
+  Form,
+  InputNumber,
+  Popover,
+  Radio,
+  Select,
+  Space,
+} from "antd";
+import React, { useEffect, useState } from "react";
+
+export interface SortFilterBarProps {
+  value: DirectoryListOptions;
+  onChange: (value: DirectoryListOptions) => void;
+  disabled?: boolean;
+}
+
+type FilterFormType = {
+  extensions: string[];
+  minSizeKB?: number; // 最小文件大小（KB）
+  maxSizeKB?: number; // 最大文件大小（KB）
+  orientation: OrientationEnum | "all";
+};
+
+const SORT_OPTIONS = [
+  { label: "名称", value: SortKeyEnum.NAME },
+  { label: "大小", value: SortKeyEnum.SIZE },
+  { label: "修改时间", value: SortKeyEnum.MODIFIED_AT },
+  { label: "尺寸", value: SortKeyEnum.DIMENSIONS },
+  { label: "格式", value: SortKeyEnum.FORMAT },
+];
+
+const EXTENSION_OPTIONS = [
+  "jpg",
+  "png",
+  "gif",
+  "bmp",
+  "webp",
+  "svg",
+  "ico",
+  "tiff",
+  "avif",
+  "heic",
+  "heif",
+  "raw",
+].map((v) => ({ label: v.toUpperCase(), value: v }));
+
+// 当前生效的筛选条件数量（用于按钮角标）
+const countFilters = (filter?: DirectoryFilter) => {
+  if (!filter) return 0;
+  let count = 0;
+  if (filter.extensions?.length) count++;
+  if (filter.minSize !== undefined || filter.maxSize !== undefined) count++;
+  if (filter.orientation) count++;
+  return count;
+};
+
+/**
+ * 目录排序与筛选控件（排序与筛选在主进程中执行）
+ */
+const SortFilterBar: React.FC<SortFilterBarProps> = ({
+  value,
+  onChange,
+  disabled,
+}) => {
+  const [form] = Form.useForm<FilterFormType>();
+  const [filterOpen, setFilterOpen] = useState(false);
+  const sortBy = value.sort?.sortBy ?? SortKeyEnum.NAME;
+  const order = value.sort?.order ?? "asc";
+
+  useEffect(() => {
+    if (filterOpen) {
+      const filter = value.filter;
+      form.setFieldsValue({
+        extensions: filter?.extensions ?? [],
+        minSizeKB:
+          filter?.minSize !== undefined ? filter.minSize / 1024 : undefined,
+        maxSizeKB:
+          filter?.maxSize !== undefined ? filter.maxSize / 1024 : undefined,
+        orientation: filter?.orientation ?? "all",
+      });
+    }
+  }, [filterOpen, form, value.filter]);
+
+  const onFilterFinish = (values: FilterFormType) => {
+    const filter: DirectoryFilter = {};
+    if (values.extensions?.length) filter.extensions = values.extensions;
+    if (typeof values.minSizeKB === "number") {
+      filter.minSize = Math.round(values.minSizeKB * 1024);
+    }
+    if (typeof values.maxSizeKB === "number") {
+      filter.maxSize = Math.round(values.maxSizeKB * 1024);
+    }
+    if (values.orientation !== "all") filter.orientation = values.orientation;
+    onChange({
+      ...value,
+      filter: countFilters(filter) ? filter : undefined,
+    });
+    setFilterOpen(false);
+  };
+
+  const filterContent = (
+    <Form
+      layout="vertical"
+      form={form}
+      onFinish={onFilterFinish}
+      style={{ width: 280 }}
+    >
+      <Form.Item<FilterFormType> label="格式" name="extensions">
+        <Select
+          mode="multiple"
+          allowClear
+          placeholder="全部格式"
+          options={EXTENSION_OPTIONS}
+        />
+      </Form.Item>
+      <Form.Item<FilterFormType> label="文件大小（KB）">
+        <Space.Compact>
+          <Form.Item<FilterFormType> name="minSizeKB" noStyle>
+            <InputNumber min={0} placeholder="最小" />
+          </Form.Item>
+          <Form.Item<FilterFormType> name="maxSizeKB" noStyle>
+            <InputNumber min={0} placeholder="最大" />
+          </Form.Item>
+        </Space.Compact>
+      </Form.Item>
+      <Form.Item<FilterFormType> label="方向" name="orientation">
+        <Radio.Group size="small">
+          <Radio.Button value="all">全部</Radio.Button>
+          <Radio.Button value={OrientationEnum.LANDSCAPE}>横向</Radio.Button>
+          <Radio.Button value={OrientationEnum.PORTRAIT}>纵向</Radio.Button>
+          <Radio.Button value={OrientationEnum.SQUARE}>正方形</Radio.Button>
+        </Radio.Group>
+      </Form.Item>
+      <Space>
+        <Button
+          size="small"
+          onClick={() => {
+            onChange({ ...value, filter: undefined });
+            setFilterOpen(false);
+          }}
+        >
+          重置
+        </Button>
+        <Button size="small" type="primary" htmlType="submit">
+          确定
+        </Button>
+      </Space>
+    </Form>
+  );
+
+  return (
+    <Space size="small">
+      <Select
+        size="small"
+        style={{ width: 110 }}
+        value={sortBy}
+        options={SORT_OPTIONS}
+        disabled={disabled}
+        onChange={(v) => onChange({ ...value, sort: { sortBy: v, order } })}
+      />
+      <Button
+        size="small"
+        disabled={disabled}
+        onClick={() =>
+          onChange({
+            ...value,
+            sort: { sortBy, order: order === "asc" ? "desc" : "asc" },
+          })
+        }
+      >
+        {order === "asc" ? "升序 ↑" : "降序 ↓"}
+      </Button>
+      <Popover
+        content={filterContent}
+        trigger="click"
+        open={filterOpen}
+        onOpenChange={setFilterOpen}
+        placement="bottomRight"
+      >
+        <Badge count={countFilters(value.filter)} size="small">
+          <Button size="small" disabled={disabled}>
+            筛选
+          </Button>
+        </Badge>
+      </Popover>
+    </Space>
+  );
+};
+
+export default SortFilterBar;
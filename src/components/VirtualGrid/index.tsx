@@ -0,0 +1,237 @@
+import type { FileItem } from "@/types";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import styles from "./index.module.scss";
+
+export interface VirtualGridProps {
+  items: FileItem[];
+  itemWidth: number; // 单个格子宽度
+  itemHeight: number; // 单个格子高度
+  gap?: number; // 格子间距
+  overscan?: number; // 可视区域外额外渲染的行数
+  endReachedThreshold?: number; // 距离底部多少行时触发加载更多
+  renderItem: (item: FileItem, index: number) => React.ReactNode;
+  onEndReached?: () => void; // 滚动到底部附近时触发
+  onSelectStart?: (additive: boolean) => void; // 在空白处按下鼠标开始框选（按住 Ctrl/Shift 时为追加选择）
+  onSelectArea?: (indices: number[]) => void; // 框选范围变化，参数为框内格子的下标
+  className?: string;
+}
+
+type SelectionRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+const AUTO_SCROLL_EDGE = 30; // 框选时距离边缘多少像素开始自动滚动
+const AUTO_SCROLL_STEP = 20; // 每次自动滚动的距离
+
+/**
+ * 虚拟滚动网格：只渲染可视区域（及上下少量缓冲行）内的格子
+ * 传入 onSelectArea 时支持在空白处拖拽框选
+ */
+const VirtualGrid: React.FC<VirtualGridProps> = ({
+  items,
+  itemWidth,
+  itemHeight,
+  gap = 20,
+  overscan = 2,
+  endReachedThreshold = 3,
+  renderItem,
+  onEndReached,
+  onSelectStart,
+  onSelectArea,
+  className,
+}) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selectionRect, setSelectionRect] = useState<SelectionRect | null>(
+    null
+  );
+  // 框选状态：起点（内容坐标）与最近一次鼠标位置（视口坐标）
+  const dragRef = useRef<{
+    startX: number;
+    startY: number;
+    clientX: number;
+    clientY: number;
+  } | null>(null);
+
+  // 监听容器尺寸变化，重新计算列数
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const update = () =>
+      setViewport({ width: el.clientWidth, height: el.clientHeight });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = Math.max(
+    1,
+    Math.floor((viewport.width + gap) / (itemWidth + gap))
+  );
+  const rowHeight = itemHeight + gap;
+  const rowCount = Math.ceil(items.length / columns);
+  const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const lastRow = Math.min(
+    rowCount - 1,
+    Math.ceil((scrollTop + viewport.height) / rowHeight) + overscan
+  );
+
+  // 框选时在窗口事件中读取最新布局
+  const layoutRef = useRef({ columns, rowHeight, count: items.length });
+  layoutRef.current = { columns, rowHeight, count: items.length };
+  const onSelectAreaRef = useRef(onSelectArea);
+  onSelectAreaRef.current = onSelectArea;
+
+  // 可视区域接近底部（或内容不足一屏）时加载更多
+  useEffect(() => {
+    if (!viewport.height) return;
+    if (lastRow >= rowCount - 1 - endReachedThreshold) {
+      onEndReached?.();
+    }
+  }, [lastRow, rowCount, endReachedThreshold, viewport.height, onEndReached]);
+
+  // 根据框选起点与当前鼠标位置计算选框及框内格子
+  const updateSelection = useCallback(() => {
+    const el = containerRef.current;
+    const drag = dragRef.current;
+    if (!el || !drag) return;
+    const bounds = el.getBoundingClientRect();
+    const x = drag.clientX - bounds.left + el.scrollLeft;
+    const y = drag.clientY - bounds.top + el.scrollTop;
+    const rect = {
+      left: Math.min(drag.startX, x),
+      top: Math.min(drag.startY, y),
+      width: Math.abs(x - drag.startX),
+      height: Math.abs(y - drag.startY),
+    };
+    setSelectionRect(rect);
+
+    const { columns, rowHeight, count } = layoutRef.current;
+    const colWidth = itemWidth + gap;
+    const indices: number[] = [];
+    const rowStart = Math.floor(rect.top / rowHeight);
+    const rowEnd = Math.floor((rect.top + rect.height) / rowHeight);
+    for (let row = rowStart; row <= rowEnd; row++) {
+      const cellTop = row * rowHeight;
+      if (cellTop > rect.top + rect.height) continue;
+      if (cellTop + itemHeight < rect.top) continue;
+      for (let col = 0; col < columns; col++) {
+        const cellLeft = col * colWidth;
+        if (cellLeft > rect.left + rect.width) break;
+        if (cellLeft + itemWidth < rect.left) continue;
+        const index = row * columns + col;
+        if (index >= count) break;
+        indices.push(index);
+      }
+    }
+    onSelectAreaRef.current?.(indices);
+  }, [itemWidth, itemHeight, gap]);
+
+  const onScroll = useCallback(
+    (e: React.UIEvent<HTMLDivElement>) => {
+      setScrollTop(e.currentTarget.scrollTop);
+      // 框选过程中滚动，选框随内容延伸
+      if (dragRef.current) updateSelection();
+    },
+    [updateSelection]
+  );
+
+  // 在空白处按下左键开始框选
+  const onMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const el = containerRef.current;
+    if (!onSelectArea || !el || e.button !== 0) return;
+    if ((e.target as HTMLElement).closest(`.${styles.cell}`)) return;
+    const bounds = el.getBoundingClientRect();
+    // 点击在滚动条上
+    if (e.clientX - bounds.left >= el.clientWidth) return;
+    if (e.clientY - bounds.top >= el.clientHeight) return;
+    e.preventDefault();
+    dragRef.current = {
+      startX: e.clientX - bounds.left + el.scrollLeft,
+      startY: e.clientY - bounds.top + el.scrollTop,
+      clientX: e.clientX,
+      clientY: e.clientY,
+    };
+    onSelectStart?.(e.ctrlKey || e.metaKey || e.shiftKey);
+    updateSelection();
+  };
+
+  useEffect(() => {
+    const onMouseMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      const el = containerRef.current;
+      if (!drag || !el) return;
+      drag.clientX = e.clientX;
+      drag.clientY = e.clientY;
+      // 拖到容器上下边缘时自动滚动
+      const bounds = el.getBoundingClientRect();
+      if (e.clientY < bounds.top + AUTO_SCROLL_EDGE) {
+        el.scrollTop -= AUTO_SCROLL_STEP;
+      } else if (e.clientY > bounds.bottom - AUTO_SCROLL_EDGE) {
+        el.scrollTop += AUTO_SCROLL_STEP;
+      }
+      updateSelection();
+    };
+    const onMouseUp = () => {
+      if (!dragRef.current) return;
+      dragRef.current = null;
+      setSelectionRect(null);
+    };
+    window.addEventListener("mousemove", onMouseMove);
+    window.addEventListener("mouseup", onMouseUp);
+    return () => {
+      window.removeEventListener("mousemove", onMouseMove);
+      window.removeEventListener("mouseup", onMouseUp);
+    };
+  }, [updateSelection]);
+
+  const cells: React.ReactNode[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = 0; col < columns; col++) {
+      const index = row * columns + col;
+      if (index >= items.length) break;
+      cells.push(
+        <div
+          key={items[index].path}
+          className={styles.cell}
+          style={{
+            top: row * rowHeight,
+            left: col * (itemWidth + gap),
+            width: itemWidth,
+            height: itemHeight,
+          }}
+        >
+          {renderItem(items[index], index)}
+        </div>
+      );
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={`${styles.virtualGrid} ${className ?? ""}`}
+      onScroll={onScroll}
+      onMouseDown={onMouseDown}
+    >
+      <div
+        className={styles.inner}
+        style={{
+          height: Math.max(viewport.height, rowCount * rowHeight - gap),
+        }}
+      >
+        {cells}
+        {selectionRect && (
+          <div className={styles.selectionRect} style={selectionRect} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualGrid;
@@ -65,8 +65,8 @@ const WatermarkModal: React.FC<WatermarkModalProps> = ({
     y: 0.9,
   });
   const previewSrc = useMemo(() => {
-    const img = selectedFiles.find((f) => !!f.imageBase64)?.imageBase64;
-    return img ?? selectedFiles[0]?.imageBase64;
+    const img = selectedFiles.find((f) => !!f.originalUrl)?.originalUrl;
+    return img ?? selectedFiles[0]?.originalUrl;
   }, [selectedFiles]);
 
   const onFinish = async (values: FormType) => {
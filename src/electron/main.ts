@@ -1,6 +1,15 @@
-import { app, BrowserWindow } from "electron";
+import { app, BrowserWindow, protocol } from "electron";
+import { promises as fs } from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
+import { getMimeType, IMAGE_EXTENSIONS } from "./module/directory";
+import {
+  LOCAL_IMAGE_SCHEME,
+  configureThumbnailCache,
+  getThumbnail,
+  pruneThumbnailCache,
+} from "./module/thumbnail";
+import { registerIpcHandlers } from "./module/ipc";
 
 const isDev = !app.isPackaged;
 
@@ -11,18 +20,70 @@ const __dirname = path.dirname(__filename);
 // 全局窗口引用
 let mainWindow: BrowserWindow | null = null;
 
+// 注册本地图片协议（必须在 app ready 之前调用）
+protocol.registerSchemesAsPrivileged([
+  {
+    scheme: LOCAL_IMAGE_SCHEME,
+    privileges: { standard: true, secure: true, supportFetchAPI: true },
+  },
+]);
+
+/**
+ * 处理 local-image 协议请求
+ * - thumbnail：返回缓存缩略图；生成失败（如 ico、heic 等 sharp 无法解码的格式）时回退为原图
+ * - original：返回原图
+ * 仅允许访问图片扩展名的文件
+ */
+const handleLocalImageRequest = async (request: Request) => {
+  try {
+    const url = new URL(request.url);
+    const filePath = url.searchParams.get("path");
+    if (!filePath) {
+      return new Response("missing path", { status: 400 });
+    }
+    const ext = path.extname(filePath).toLowerCase();
+    if (!IMAGE_EXTENSIONS.includes(ext)) {
+      return new Response("not an image", { status: 403 });
+    }
+
+    if (url.hostname === "thumbnail") {
+      try {
+        const thumbPath = await getThumbnail(filePath);
+        return new Response(await fs.readFile(thumbPath), {
+          headers: {
+            "Content-Type": "image/webp",
+            "Cache-Control": "max-age=31536000, immutable",
+          },
+        });
+      } catch (error) {
+        console.warn(`生成缩略图失败，回退为原图: ${filePath}`, error);
+      }
+    } else if (url.hostname !== "original") {
+      return new Response("not found", { status: 404 });
+    }
+
+    return new Response(await fs.readFile(filePath), {
+      headers: { "Content-Type": getMimeType(ext) },
+    });
+  } catch (error) {
+    console.error(`读取本地图片失败: ${request.url}`, error);
+    return new Response("not found", { status: 404 });
+  }
+};
+
 const createWindow = () => {
   mainWindow = new BrowserWindow({
     width: 1200,
     height: 800,
     webPreferences: {
-      preload: path.join(__dirname, "preload.js"), // 用 preload 通信
+      // 用 preload 通信（沙箱中的 preload 只能是 CommonJS，且只能使用 ipcRenderer 等少量模块）
+      preload: path.join(__dirname, "preload.cjs"),
       nodeIntegration: false,
       contextIsolation: true,
       webSecurity: true,
       allowRunningInsecureContent: false,
-      // 启用 ES 模块支持
-      sandbox: false,
+      // 文件与图片处理都在主进程中执行，渲染进程可以运行在沙箱中
+      sandbox: true,
     },
   });
 
@@ -33,7 +94,7 @@ const createWindow = () => {
         responseHeaders: {
           ...details.responseHeaders,
           "Content-Security-Policy": [
-            "default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data: https:; connect-src 'self' https:;",
+            "default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data: https: local-image:; connect-src 'self' https:;",
           ],
         },
       });
@@ -53,6 +114,16 @@ const createWindow = () => {
 };
 
 app.whenReady().then(() => {
+  // 缩略图缓存放在用户数据目录下，启动时清理过期条目
+  configureThumbnailCache({
+    dir: path.join(app.getPath("userData"), "thumbnails"),
+  });
+  pruneThumbnailCache().catch((error) => {
+    console.error("清理缩略图缓存失败:", error);
+  });
+  protocol.handle(LOCAL_IMAGE_SCHEME, handleLocalImageRequest);
+  registerIpcHandlers();
+
   createWindow();
 
   app.on("activate", () => {
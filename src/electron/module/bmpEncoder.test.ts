@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { encodeBmp8 } from "./bmpEncoder";
+
+const RED = [255, 0, 0];
+const GREEN = [0, 255, 0];
+const BLUE = [0, 0, 255];
+
+// 3×2 的 RGB 图片：第一行 红 绿 红，第二行 蓝 蓝 绿
+const pixels = Buffer.from([RED, GREEN, RED, BLUE, BLUE, GREEN].flat());
+
+describe("encodeBmp8", () => {
+  const file = encodeBmp8(pixels, 3, 2, 3);
+  const offset = 14 + 40 + 3 * 4;
+  const stride = 4; // 3 字节补齐到 4 字节
+
+  it("写入文件头与信息头", () => {
+    expect(file.toString("ascii", 0, 2)).toBe("BM");
+    expect(file.readUInt32LE(2)).toBe(file.length);
+    expect(file.length).toBe(offset + stride * 2);
+    expect(file.readUInt32LE(10)).toBe(offset);
+    expect(file.readUInt32LE(14)).toBe(40);
+    expect(file.readInt32LE(18)).toBe(3);
+    expect(file.readInt32LE(22)).toBe(2); // 正数表示自下而上
+    expect(file.readUInt16LE(28)).toBe(8);
+    expect(file.readUInt32LE(34)).toBe(stride * 2);
+  });
+
+  it("调色板只包含出现过的颜色，按 BGR0 存储", () => {
+    expect(file.readUInt32LE(46)).toBe(3);
+    const palette = file.subarray(54, offset);
+    expect([...palette]).toEqual([0, 0, 255, 0, 0, 255, 0, 0, 255, 0, 0, 0]);
+  });
+
+  it("行自下而上写入，每行补齐到 4 字节", () => {
+    const rows = [0, 1].map((y) => [
+      ...file.subarray(offset + y * stride, offset + (y + 1) * stride),
+    ]);
+    expect(rows[0]).toEqual([2, 2, 1, 0]); // 第二行：蓝 蓝 绿 + 补齐
+    expect(rows[1]).toEqual([0, 1, 0, 0]); // 第一行：红 绿 红 + 补齐
+  });
+
+  it("忽略透明度通道", () => {
+    const rgba = Buffer.from([255, 0, 0, 0, 255, 0, 0, 255]);
+    const out = encodeBmp8(rgba, 2, 1, 4);
+    expect(out.readUInt32LE(46)).toBe(1);
+  });
+
+  it("宽度为 4 的倍数时不补齐", () => {
+    const out = encodeBmp8(Buffer.alloc(4 * 3 * 3), 4, 3, 3);
+    expect(out.length).toBe(14 + 40 + 4 + 4 * 3);
+  });
+
+  it("颜色数超过 256 时抛出异常", () => {
+    const many = Buffer.alloc(257 * 3);
+    for (let i = 0; i < 257; i++) many.writeUIntBE(i, i * 3, 3);
+    expect(() => encodeBmp8(many, 257, 1, 3)).toThrow("256");
+  });
+});
@@ -0,0 +1,67 @@
+const FILE_HEADER_SIZE = 14;
+const INFO_HEADER_SIZE = 40; // BITMAPINFOHEADER
+const MAX_COLORS = 256;
+
+/**
+ * 将调色板图片编码为 8 位索引色 BMP（每像素 1 字节，约为 24 位 BMP 的三分之一）
+ * @param pixels 逐行排列的像素（RGB 或 RGBA，忽略透明度），颜色数不能超过 256
+ * @param width 宽度
+ * @param height 高度
+ * @param channels 每像素通道数（3 或 4）
+ * @returns BMP 文件内容
+ *
+ * 行为说明：
+ * - 调色板按像素出现顺序生成，调用方需先完成颜色量化
+ * - 不使用 RLE8：sharp-bmp（bmp-js）解码自下而上的 RLE8 图片时行顺序有误，
+ *   本应用读取输出文件（缩略图、详情）时会出错
+ * - 行按 BMP 约定自下而上写入，每行补齐到 4 字节
+ */
+export function encodeBmp8(
+  pixels: Buffer,
+  width: number,
+  height: number,
+  channels: number
+): Buffer {
+  // 建立调色板并把像素转换为索引
+  const palette = new Map<number, number>();
+  const indices = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const p = i * channels;
+    const color = (pixels[p] << 16) | (pixels[p + 1] << 8) | pixels[p + 2];
+    let index = palette.get(color);
+    if (index === undefined) {
+      index = palette.size;
+      if (index >= MAX_COLORS) throw new Error("颜色数超过 256，无法编码");
+      palette.set(color, index);
+    }
+    indices[i] = index;
+  }
+
+  const stride = Math.ceil(width / 4) * 4;
+  const offset = FILE_HEADER_SIZE + INFO_HEADER_SIZE + palette.size * 4;
+  const file = Buffer.alloc(offset + stride * height);
+  file.write("BM", 0, "ascii");
+  file.writeUInt32LE(file.length, 2);
+  file.writeUInt32LE(offset, 10);
+  file.writeUInt32LE(INFO_HEADER_SIZE, 14);
+  file.writeInt32LE(width, 18);
+  file.writeInt32LE(height, 22); // 正数表示自下而上
+  file.writeUInt16LE(1, 26); // 平面数
+  file.writeUInt16LE(8, 28); // 每像素位数
+  file.writeUInt32LE(0, 30); // BI_RGB
+  file.writeUInt32LE(stride * height, 34);
+  file.writeInt32LE(2835, 38); // 72 DPI
+  file.writeInt32LE(2835, 42);
+  file.writeUInt32LE(palette.size, 46);
+  for (const [color, index] of palette) {
+    const p = FILE_HEADER_SIZE + INFO_HEADER_SIZE + index * 4;
+    file[p] = color & 0xff; // B
+    file[p + 1] = (color >> 8) & 0xff; // G
+    file[p + 2] = (color >> 16) & 0xff; // R
+  }
+  for (let y = 0; y < height; y++) {
+    const row = indices.subarray(y * width, (y + 1) * width);
+    file.set(row, offset + (height - 1 - y) * stride);
+  }
+  return file;
+}
@@ -1,10 +1,46 @@
 import { promises as fs } from "fs";
 import * as path from "path";
 import * as os from "os";
-import { FileItemTypeEnum, type FileItem, type BreadcrumbList } from "@/types";
+import {
+  FileItemTypeEnum,
+  SortKeyEnum,
+  type DirectoryListOptions,
+  type FileItem,
+  type BreadcrumbList,
+  type DirectoryCursor,
+  type DirectoryBatch,
+} from "@/types";
 import sharp from "sharp";
 import bmp from "sharp-bmp";
-const WINDOWS_DRIVES_ROOT = "WIN_DRIVES_ROOT";
+import { compareFileItems, matchesFilter } from "@/utils/fileSort";
+import { mapWithConcurrency } from "@/utils/concurrency";
+import { buildOriginalUrl, buildThumbnailUrl } from "./thumbnail";
+import { readIccDescription } from "./iccProfile";
+
+/**
+ * Windows 下“计算机”（磁盘驱动器列表）的虚拟路径
+ */
+export const WINDOWS_DRIVES_ROOT = "WIN_DRIVES_ROOT";
+
+/**
+ * 支持展示的图片扩展名（包含点号，小写）
+ */
+export const IMAGE_EXTENSIONS = [
+  ".jpg",
+  ".jpeg",
+  ".png",
+  ".gif",
+  ".bmp",
+  ".webp",
+  ".svg",
+  ".ico",
+  ".tiff",
+  ".tif",
+  ".raw",
+  ".heic",
+  ".heif",
+  ".avif",
+];
 
 /**
  * 获取目录内容（文件夹和图片文件）
@@ -15,96 +51,324 @@ export async function getDirectoryContents(
   dirPath?: string
 ): Promise<FileItem[]> {
   try {
-    let targetPath = dirPath;
-
-    // 如果没有传入路径，根据操作系统设置默认路径
-    if (!targetPath) {
-      const platform = os.platform();
-
-      if (platform === "darwin") {
-        // Mac系统：默认读取桌面目录
-        targetPath = path.join(os.homedir(), "Desktop");
-      } else if (platform === "win32") {
-        // Windows系统：返回磁盘驱动器列表
-        return await getWindowsDrives();
-      } else {
-        // 其他类Unix系统：使用主目录
-        targetPath = os.homedir();
-      }
+    const entries = await listDirectoryEntries(dirPath);
+    const result: FileItem[] = [];
+    for (const entry of entries) {
+      result.push(await withImageUrls(entry));
     }
+    return result;
+  } catch (error) {
+    console.error("读取目录失败:", error);
+    return [];
+  }
+}
 
-    if (os.platform() === "win32" && targetPath === WINDOWS_DRIVES_ROOT) {
-      return await getWindowsDrives();
-    }
+/**
+ * 读取目录下的文件夹与图片条目（仅读取目录项，不读取图片内容）
+ * @param dirPath 可选参数，指定要读取的路径。如果不传，则根据系统使用默认路径
+ * @param options 可选排序与筛选条件，仅在需要时读取文件大小、修改时间或图片尺寸
+ * @returns Promise<FileItem[]> 已排序的条目：文件夹在前，图片在后
+ */
+async function listDirectoryEntries(
+  dirPath?: string,
+  options?: DirectoryListOptions
+): Promise<FileItem[]> {
+  const targetPath = resolveDirectoryPath(dirPath);
+  if (targetPath === null) {
+    // Windows系统：返回磁盘驱动器列表
+    return await getWindowsDrives();
+  }
 
-    // 读取目录内容
-    const items = await fs.readdir(targetPath, { withFileTypes: true });
-    const result: FileItem[] = [];
+  // 读取目录内容
+  const items = await fs.readdir(targetPath, { withFileTypes: true });
+  const result: FileItem[] = [];
 
-    for (const item of items) {
-      const itemPath = path.join(targetPath, item.name);
+  for (const item of items) {
+    const itemPath = path.join(targetPath, item.name);
 
-      if (item.isDirectory()) {
-        // 添加文件夹
+    if (item.isDirectory()) {
+      // 添加文件夹
+      result.push({
+        name: item.name,
+        path: itemPath,
+        type: FileItemTypeEnum.FOLDER,
+      });
+    } else if (item.isFile()) {
+      // 检查是否为图片文件
+      const ext = path.extname(item.name).toLowerCase();
+      if (IMAGE_EXTENSIONS.includes(ext)) {
         result.push({
           name: item.name,
           path: itemPath,
-          type: FileItemTypeEnum.FOLDER,
+          type: FileItemTypeEnum.IMAGE,
         });
-      } else if (item.isFile()) {
-        // 检查是否为图片文件
-        const ext = path.extname(item.name).toLowerCase();
-        const imageExtensions = [
-          ".jpg",
-          ".jpeg",
-          ".png",
-          ".gif",
-          ".bmp",
-          ".webp",
-          ".svg",
-          ".ico",
-          ".tiff",
-          ".tif",
-          ".raw",
-          ".heic",
-          ".heif",
-        ];
-
-        if (imageExtensions.includes(ext)) {
-          // 读取图片文件并转换为Base64
-          let imageBase64: string | undefined;
-          try {
-            const imageBuffer = await fs.readFile(itemPath);
-            const mimeType = getMimeType(ext);
-            imageBase64 = `data:${mimeType};base64,${imageBuffer.toString(
-              "base64"
-            )}`;
-          } catch (error) {
-            console.error(`读取图片文件失败: ${itemPath}`, error);
-            // 如果读取失败，imageData保持undefined
-          }
+      }
+    }
+  }
 
-          result.push({
-            name: item.name,
-            path: itemPath,
-            type: FileItemTypeEnum.IMAGE,
-            imageBase64,
-          });
+  // 按排序/筛选条件补充文件信息
+  const sortBy = options?.sort?.sortBy;
+  const filter = options?.filter;
+  const needStat =
+    sortBy === SortKeyEnum.SIZE ||
+    sortBy === SortKeyEnum.MODIFIED_AT ||
+    filter?.minSize !== undefined ||
+    filter?.maxSize !== undefined;
+  const needDimensions = needsDimensions(options);
+  if (needStat || needDimensions) {
+    await mapWithConcurrency(
+      result.filter((v) => v.type === FileItemTypeEnum.IMAGE),
+      8,
+      async (item) => {
+        try {
+          const stat = await fs.stat(item.path);
+          item.size = stat.size;
+          item.modifiedAt = stat.mtimeMs;
+          if (needDimensions) {
+            const dims = await readImageDimensions(item.path, stat);
+            item.width = dims?.width;
+            item.height = dims?.height;
+          }
+        } catch {
+          // 读取失败的条目保持未知，排序时排在最后
         }
       }
-    }
+    );
+  }
+
+  // 默认按名称排序：文件夹在前，图片在后
+  return result
+    .filter((item) => matchesFilter(item, filter))
+    .sort((a, b) => compareFileItems(a, b, options?.sort));
+}
+
+/**
+ * 排序或筛选条件是否依赖图片尺寸（按尺寸排序、按横竖方向筛选）
+ */
+export function needsDimensions(options?: DirectoryListOptions): boolean {
+  return (
+    options?.sort?.sortBy === SortKeyEnum.DIMENSIONS ||
+    !!options?.filter?.orientation
+  );
+}
 
-    // 按名称排序：文件夹在前，图片在后
-    return result.sort((a, b) => {
-      if (a.type === b.type) {
-        return a.name.localeCompare(b.name);
+const MAX_DIMENSION_CACHE_ENTRIES = 20000; // 尺寸缓存的最大条目数
+
+// 图片尺寸缓存（路径 + 修改时间 + 大小 -> 尺寸），重复排序或筛选时无需再次读取
+// Map 按插入顺序遍历，命中时重新插入，超出容量时淘汰最久未使用的条目
+const dimensionCache = new Map<string, { width: number; height: number }>();
+
+function dimensionCacheKey(
+  filePath: string,
+  stat: { mtimeMs: number; size: number }
+) {
+  return `${filePath}|${Math.floor(stat.mtimeMs)}|${stat.size}`;
+}
+
+/**
+ * 读取图片像素尺寸（只读取文件头，不解码整张图片）
+ * - 按 EXIF 方向修正宽高
+ * - BMP 直接解析文件头
+ * @returns 无法读取时返回 undefined
+ */
+async function readImageDimensions(
+  filePath: string,
+  stat: { mtimeMs: number; size: number }
+): Promise<{ width: number; height: number } | undefined> {
+  const key = dimensionCacheKey(filePath, stat);
+  const cached = dimensionCache.get(key);
+  if (cached) {
+    dimensionCache.delete(key);
+    dimensionCache.set(key, cached);
+    return { ...cached };
+  }
+  let width: number | undefined;
+  let height: number | undefined;
+  try {
+    if (path.extname(filePath).toLowerCase() === ".bmp") {
+      // BMP 文件头：宽度位于偏移 18，高度位于偏移 22（负数表示自上而下存储）
+      const handle = await fs.open(filePath, "r");
+      try {
+        const header = Buffer.alloc(26);
+        await handle.read(header, 0, 26, 0);
+        width = Math.abs(header.readInt32LE(18));
+        height = Math.abs(header.readInt32LE(22));
+      } finally {
+        await handle.close();
       }
-      return a.type === "folder" ? -1 : 1;
-    });
+    } else {
+      const meta = await sharp(filePath, { failOn: "none" }).metadata();
+      const rotated = (meta.orientation ?? 1) >= 5;
+      width = rotated ? meta.height : meta.width;
+      height = rotated ? meta.width : meta.height;
+    }
+  } catch {
+    return undefined;
+  }
+  if (!width || !height) return undefined;
+  dimensionCache.set(key, { width, height });
+  if (dimensionCache.size > MAX_DIMENSION_CACHE_ENTRIES) {
+    const [oldest] = dimensionCache.keys();
+    dimensionCache.delete(oldest);
+  }
+  return { width, height };
+}
+
+/**
+ * 解析实际要读取的目录路径
+ * @param dirPath 可选参数，指定要读取的路径。如果不传，则根据系统使用默认路径
+ * @returns string | null 目录路径；Windows 磁盘驱动器列表（“计算机”节点）返回 null
+ */
+export function resolveDirectoryPath(dirPath?: string): string | null {
+  let targetPath = dirPath;
+
+  // 如果没有传入路径，根据操作系统设置默认路径
+  if (!targetPath) {
+    const platform = os.platform();
+
+    if (platform === "darwin") {
+      // Mac系统：默认读取桌面目录
+      targetPath = path.join(os.homedir(), "Desktop");
+    } else if (platform === "win32") {
+      // Windows系统：磁盘驱动器列表
+      return null;
+    } else {
+      // 其他类Unix系统：使用主目录
+      targetPath = os.homedir();
+    }
+  }
+
+  if (os.platform() === "win32" && targetPath === WINDOWS_DRIVES_ROOT) {
+    return null;
+  }
+  return targetPath;
+}
+
+/**
+ * 根据路径创建目录条目（供目录监听等场景使用）
+ * @param itemPath 文件或文件夹完整路径
+ * @param options.dimensions 是否读取图片尺寸（排序或筛选依赖尺寸时需要）
+ * @returns Promise<FileItem | null> 文件夹或图片返回条目，其他类型或不存在返回 null
+ */
+export async function createFileItem(
+  itemPath: string,
+  options: { dimensions?: boolean } = {}
+): Promise<FileItem | null> {
+  let stat;
+  try {
+    stat = await fs.stat(itemPath);
+  } catch {
+    return null;
+  }
+  const name = path.basename(itemPath);
+  if (stat.isDirectory()) {
+    return { name, path: itemPath, type: FileItemTypeEnum.FOLDER };
+  }
+  if (
+    stat.isFile() &&
+    IMAGE_EXTENSIONS.includes(path.extname(name).toLowerCase())
+  ) {
+    const dims = options.dimensions
+      ? await readImageDimensions(itemPath, stat)
+      : undefined;
+    return {
+      name,
+      path: itemPath,
+      type: FileItemTypeEnum.IMAGE,
+      thumbnailUrl: buildThumbnailUrl(itemPath, stat.mtimeMs, stat.size),
+      originalUrl: buildOriginalUrl(itemPath, stat.mtimeMs, stat.size),
+      size: stat.size,
+      modifiedAt: stat.mtimeMs,
+      width: dims?.width,
+      height: dims?.height,
+    };
+  }
+  return null;
+}
+
+/**
+ * 为图片条目补充缩略图/原图地址与文件信息，图片内容由 local-image 协议按需加载
+ */
+async function withImageUrls(item: FileItem): Promise<FileItem> {
+  if (item.type !== FileItemTypeEnum.IMAGE) return item;
+  try {
+    const stat = await fs.stat(item.path);
+    return {
+      ...item,
+      thumbnailUrl: buildThumbnailUrl(item.path, stat.mtimeMs, stat.size),
+      originalUrl: buildOriginalUrl(item.path, stat.mtimeMs, stat.size),
+      size: stat.size,
+      modifiedAt: stat.mtimeMs,
+    };
+  } catch (error) {
+    console.error(`读取图片文件信息失败: ${item.path}`, error);
+    // 如果读取失败，地址保持undefined
+    return item;
+  }
+}
+
+const MAX_OPEN_CURSORS = 20; // 同时保留的游标数量上限，超出时淘汰最早打开的游标
+const DEFAULT_BATCH_SIZE = 200; // 每批返回的条目数量
+
+// 目录游标：打开时读取目录项并完成排序与筛选，按批补充缩略图地址后返回
+const cursors = new Map<string, { entries: FileItem[]; position: number }>();
+let cursorSeq = 0;
+
+/**
+ * 打开目录游标（用于分批读取大目录）
+ * @param dirPath 可选参数，指定要读取的路径。如果不传，则根据系统使用默认路径
+ * @param options 可选排序与筛选条件（在主进程中完成，避免渲染进程处理大目录）
+ * @returns Promise<DirectoryCursor> 游标 ID 与条目总数（筛选后）
+ */
+export async function openDirectoryCursor(
+  dirPath?: string,
+  options?: DirectoryListOptions
+): Promise<DirectoryCursor> {
+  let entries: FileItem[];
+  try {
+    entries = await listDirectoryEntries(dirPath, options);
   } catch (error) {
     console.error("读取目录失败:", error);
-    return [];
+    entries = [];
+  }
+
+  const cursorId = `cursor-${++cursorSeq}`;
+  cursors.set(cursorId, { entries, position: 0 });
+  // 渲染进程异常退出等情况下游标可能未关闭，超出上限时淘汰最早的游标
+  while (cursors.size > MAX_OPEN_CURSORS) {
+    const oldest = cursors.keys().next().value as string;
+    cursors.delete(oldest);
   }
+  return { cursorId, total: entries.length };
+}
+
+/**
+ * 从目录游标读取下一批条目
+ * @param cursorId 游标 ID（由 openDirectoryCursor 返回）
+ * @param count 本批最多返回的条目数量，默认 200
+ * @returns Promise<DirectoryBatch> 本批条目与是否已读取完毕
+ */
+export async function readDirectoryCursor(
+  cursorId: string,
+  count: number = DEFAULT_BATCH_SIZE
+): Promise<DirectoryBatch> {
+  const cursor = cursors.get(cursorId);
+  if (!cursor) {
+    throw new Error("目录游标不存在或已关闭");
+  }
+  const size = count > 0 ? Math.floor(count) : DEFAULT_BATCH_SIZE;
+  const slice = cursor.entries.slice(cursor.position, cursor.position + size);
+  cursor.position += slice.length;
+  const items = await Promise.all(slice.map(withImageUrls));
+  return { items, done: cursor.position >= cursor.entries.length };
+}
+
+/**
+ * 关闭目录游标，释放其占用的条目列表
+ * @param cursorId 游标 ID
+ */
+export function closeDirectoryCursor(cursorId: string): void {
+  cursors.delete(cursorId);
 }
 
 /**
@@ -154,7 +418,7 @@ async function getWindowsDrives(): Promise<FileItem[]> {
  * @param ext 文件扩展名（包含点号）
  * @returns 对应的MIME类型
  */
-function getMimeType(ext: string): string {
+export function getMimeType(ext: string): string {
   const mimeTypes: { [key: string]: string } = {
     ".jpg": "image/jpeg",
     ".jpeg": "image/jpeg",
@@ -169,6 +433,7 @@ function getMimeType(ext: string): string {
     ".raw": "image/x-raw",
     ".heic": "image/heic",
     ".heif": "image/heif",
+    ".avif": "image/avif",
   };
 
   return mimeTypes[ext.toLowerCase()] || "image/jpeg";
@@ -267,6 +532,8 @@ export function getBreadcrumbList(dirPath?: string): BreadcrumbList {
  *   modifiedAt: number; // 最后修改时间（毫秒级时间戳）
  *   width?: number; // 图片宽度（像素），非图片文件返回 undefined
  *   height?: number; // 图片高度（像素），非图片文件返回 undefined
+ *   colorSpace?: string; // 图片色彩空间（sharp 的 space，如 srgb、cmyk），BMP 与非图片返回 undefined
+ *   iccProfile?: string; // 嵌入的 ICC 配置文件名称，未嵌入或无法解析时返回 undefined
  * }> 文件或目录的详细信息
  */
 export async function getFileInfo(filePath: string): Promise<{
@@ -277,6 +544,8 @@ export async function getFileInfo(filePath: string): Promise<{
   modifiedAt: number;
   width?: number;
   height?: number;
+  colorSpace?: string;
+  iccProfile?: string;
 }> {
   const stats = await fs.stat(filePath);
   const isDir = stats.isDirectory();
@@ -295,23 +564,7 @@ export async function getFileInfo(filePath: string): Promise<{
   }
   const ext = path.extname(filePath).toLowerCase();
   const extName = ext.startsWith(".") ? ext.slice(1) : ext;
-  const imageExtensions = [
-    ".jpg",
-    ".jpeg",
-    ".png",
-    ".gif",
-    ".bmp",
-    ".webp",
-    ".svg",
-    ".ico",
-    ".tiff",
-    ".tif",
-    ".raw",
-    ".heic",
-    ".heif",
-    ".avif",
-  ];
-  if (imageExtensions.includes(ext)) {
+  if (IMAGE_EXTENSIONS.includes(ext)) {
     if (ext === ".bmp") {
       try {
         const buffer = await fs.readFile(filePath);
@@ -345,6 +598,8 @@ export async function getFileInfo(filePath: string): Promise<{
         modifiedAt,
         width: meta.width,
         height: meta.height,
+        colorSpace: meta.space,
+        iccProfile: meta.icc ? readIccDescription(meta.icc) : undefined,
       };
     } catch {
       return {
@@ -0,0 +1,38 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  BrowserWindow,
+  dialog,
+  type FileFilter,
+  type SaveDialogOptions,
+} from "electron";
+
+// 保存对话框中按扩展名显示的文件类型
+const FILE_FILTERS: Record<string, FileFilter> = {
+  ".csv": { name: "CSV", extensions: ["csv"] },
+  ".json": { name: "JSON", extensions: ["json"] },
+};
+
+/**
+ * 弹出保存对话框，将文本内容（如压缩报告）保存为文件
+ * @param defaultFileName 默认文件名（扩展名决定对话框中的文件类型）
+ * @param content 文件内容（按 UTF-8 写入）
+ * @returns 保存的文件路径；用户取消时返回 undefined
+ */
+export async function exportTextFile(
+  defaultFileName: string,
+  content: string
+): Promise<string | undefined> {
+  const filter = FILE_FILTERS[path.extname(defaultFileName).toLowerCase()];
+  const options: SaveDialogOptions = {
+    defaultPath: defaultFileName,
+    filters: filter ? [filter] : undefined,
+  };
+  const win = BrowserWindow.getFocusedWindow();
+  const { canceled, filePath } = win
+    ? await dialog.showSaveDialog(win, options)
+    : await dialog.showSaveDialog(options);
+  if (canceled || !filePath) return undefined;
+  await fs.writeFile(filePath, content, "utf8");
+  return filePath;
+}
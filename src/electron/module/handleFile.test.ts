@@ -0,0 +1,87 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { JobFileStatusEnum, type JobProgressEvent } from "@/types";
+import { rasterizeSvgs } from "./handleFile";
+import { cancelJob, jobEvents } from "./jobQueue";
+
+const SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="16">' +
+  '<circle cx="8" cy="8" r="6" fill="red"/></svg>';
+
+describe("rasterizeSvgs", () => {
+  let dir: string;
+  let input: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "rasterize-"));
+    input = path.join(dir, "icon.svg");
+    await fs.writeFile(input, SVG);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jobEvents.removeAllListeners();
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("按倍数导出并返回全部输出路径", async () => {
+    const out = path.join(dir, "out");
+    const res = await rasterizeSvgs([input], out, {
+      format: "png",
+      width: 48,
+      scales: [1, 2, 3],
+    });
+    const names = ["icon.png", "icon@2x.png", "icon@3x.png"];
+    expect(res.results[0].outputPaths).toEqual(
+      names.map((name) => path.join(out, name))
+    );
+    const widths = await Promise.all(
+      names.map(async (name) => {
+        const meta = await sharp(path.join(out, name)).metadata();
+        return meta.width;
+      })
+    );
+    expect(widths).toEqual([48, 96, 144]);
+  });
+
+  it("目标远小于原始尺寸时也能导出（渲染密度不低于 1）", async () => {
+    const big = path.join(dir, "big.svg");
+    await fs.writeFile(
+      big,
+      '<svg xmlns="http://www.w3.org/2000/svg" width="2000" height="2000"/>'
+    );
+    const res = await rasterizeSvgs([big], dir, {
+      format: "png",
+      width: 16,
+      scales: [0.25, 1],
+    });
+    expect(res.success).toBe(true);
+    const meta = await sharp(res.results[0].outputPaths![1]).metadata();
+    expect(meta.width).toBe(16);
+  });
+
+  it("取消时不保留任何倍数的输出", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const out = path.join(dir, "out");
+    jobEvents.on("progress", (event: JobProgressEvent) => {
+      if (
+        event.type === "file" &&
+        event.file.status === JobFileStatusEnum.RUNNING
+      ) {
+        cancelJob("rasterize-cancel");
+      }
+    });
+    const res = await rasterizeSvgs(
+      [input],
+      out,
+      { format: "png", scales: [1, 2, 3] },
+      { jobId: "rasterize-cancel" }
+    );
+    expect(res.cancelled).toBe(true);
+    expect(await fs.readdir(out)).toEqual([]);
+  });
+});
@@ -1,8 +1,48 @@
 import { promises as fs } from "fs";
 import sharp from "sharp"; // 使用 sharp 进行跨格式图片压缩与编码
 import bmp from "sharp-bmp";
-import { FileItemTypeEnum, type FileItem } from "@/types";
+import {
+  ColorProfileEnum,
+  CompressFormatEnum,
+  CompressModeEnum,
+  FileItemTypeEnum,
+  JobFileStatusEnum,
+  JobKindEnum,
+  NoGainActionEnum,
+  type BatchJobOptions,
+  type BatchJobResult,
+  type CompressFileResult,
+  type CompressOptions,
+  type CompressPreview,
+  type CompressResizeOptions,
+  type ConvertOptions,
+  type ConvertTask,
+  type EncoderSettings,
+  type FileItem,
+  type IconPackOptions,
+  type IconPackResult,
+  type RasterizeOptions,
+  type ResizeKernelEnum,
+} from "@/types";
 import * as path from "path";
+import { mapWithConcurrency } from "@/utils/concurrency";
+import { formatBytes } from "@/utils/fileSize";
+import {
+  CONVERT_FORMATS,
+  CONVERT_FORMAT_LIST,
+  DEFAULT_FLATTEN_BACKGROUND,
+  formatOfFileName,
+  type ConvertFormat,
+} from "@/utils/format";
+import { computeSsim } from "@/utils/ssim";
+import { minifySvg } from "@/utils/svgMinify";
+import { runBatchJob } from "./jobQueue";
+import { getMimeType } from "./directory";
+import { encodeBmp8 } from "./bmpEncoder";
+import { encodeIco } from "./icoEncoder";
+
+// 批量删除时的并发数
+const DELETE_CONCURRENCY = 16;
 
 /**
  * 批量删除文件或文件夹（支持单个或多个）
@@ -19,8 +59,10 @@ export async function deleteFile(filePaths: string[]): Promise<boolean> {
     return true;
   }
 
-  const results = await Promise.all(
-    filePaths.map(async (filePath) => {
+  const results = await mapWithConcurrency(
+    filePaths,
+    DELETE_CONCURRENCY,
+    async (filePath) => {
       try {
         // 规范化路径，避免路径问题
         let normalizedPath: string;
@@ -184,7 +226,7 @@ export async function deleteFile(filePaths: string[]): Promise<boolean> {
         });
         return false;
       }
-    })
+    }
   );
 
   // 全部成功才返回 true
@@ -273,12 +315,33 @@ export async function renameFile(
  * - inputPath：输入文件的绝对路径
  * - outputPath：输出文件的绝对路径（失败时为空字符串）
  * - success：是否压缩成功
+ * - quality / scale：实际使用的质量与缩放比例
+ * - lossless：是否为无损重新编码
+ * - targetMet：是否满足目标（目标文件大小模式为文件大小，自动质量模式为结构相似度）
+ * - ssim：输出与原图的结构相似度（仅自动质量模式）
+ * - bytesIn / bytesOut：原文件与输出文件大小（字节）
+ * - width / height、outputWidth / outputHeight：原图与输出图片尺寸
+ * - skipped：压缩后体积没有达到最小节省比例（skipped: no gain），未输出压缩结果
+ * - detail：展示在任务面板中的结果说明
  * - error：失败原因（仅在失败时存在）
  */
 type CompressResult = {
   inputPath: string;
   outputPath: string;
   success: boolean;
+  quality?: number;
+  scale?: number;
+  lossless?: boolean;
+  targetMet?: boolean;
+  ssim?: number;
+  bytesIn?: number;
+  bytesOut?: number;
+  width?: number;
+  height?: number;
+  outputWidth?: number;
+  outputHeight?: number;
+  skipped?: boolean;
+  detail?: string;
   error?: string;
 };
 
@@ -286,6 +349,7 @@ type ConvertResult = {
   inputPath: string;
   outputPath: string;
   success: boolean;
+  detail?: string;
   error?: string;
 };
 
@@ -303,15 +367,35 @@ type CropResult = {
   error?: string;
 };
 
+// 处理失败时删除可能已写出一部分的输出文件
+async function removePartialOutput(outputPath: string) {
+  if (!outputPath) return;
+  await fs.rm(outputPath, { force: true }).catch(() => undefined);
+}
+
+// 批量任务是否有文件被取消
+function isCancelled(results: { status: JobFileStatusEnum }[]) {
+  return results.some((r) => r.status === JobFileStatusEnum.CANCELLED);
+}
+
 /**
- * 判断是否为支持的图片格式
- * 支持：jpg/jpeg、png、webp、tif/tiff、avif
+ * 判断是否为支持压缩的图片格式
+ * 支持：jpg/jpeg、png、webp（含动图）、tif/tiff、avif、gif（含动图）、bmp、svg
  */
 function isSupportedFormat(ext: string) {
   const e = ext.toLowerCase();
-  return [".jpg", ".jpeg", ".png", ".webp", ".tif", ".tiff", ".avif"].includes(
-    e
-  );
+  return [
+    ".jpg",
+    ".jpeg",
+    ".png",
+    ".webp",
+    ".tif",
+    ".tiff",
+    ".avif",
+    ".gif",
+    ".bmp",
+    ".svg",
+  ].includes(e);
 }
 
 /**
@@ -428,13 +512,19 @@ async function resolveOutputDir(dir: string): Promise<string> {
  * 规则：
  * - 原文件名不包含"_压缩"：name.ext → name_压缩.ext
  * - 原文件名已包含"_压缩"：name_压缩.ext → name_压缩_1.ext；name_压缩_3.ext → name_压缩_4.ext
+ * - 指定 outputExt 时扩展名替换为输出格式：name.jpg → name_压缩.webp
  * - 若目标已存在（文件或文件夹），则继续递增编号，直到找到可用文件名
  */
-async function nextOutputPath(outputDir: string, inputPath: string) {
+async function nextOutputPath(
+  outputDir: string,
+  inputPath: string,
+  outputExt?: string
+) {
   // 确保输出目录是绝对路径
   const normalizedOutputDir = path.resolve(outputDir);
-  const ext = path.extname(inputPath);
-  const base = path.basename(inputPath, ext);
+  const inputExt = path.extname(inputPath);
+  const ext = outputExt ?? inputExt;
+  const base = path.basename(inputPath, inputExt);
   const m = base.match(/^(.*)_压缩(?:_(\d+))?$/);
   const root = m ? m[1] : base;
   let n = m && m[2] ? parseInt(m[2], 10) + 1 : m ? 1 : 0;
@@ -590,214 +680,835 @@ async function nextCropOutputPath(outputDir: string, inputPath: string) {
 }
 
 /**
- * 批量压缩图片文件
- * @param filePaths 需要压缩的图片绝对路径数组（仅文件）
- * @param outputDir 压缩后输出目录（不存在将自动创建）
- * @param quality 可选压缩质量（1-100，默认 80）
- * @returns { success, results }：总体成功标记与逐项结果
+ * 生成"图标包"文件夹路径并避免重名
+ * 规则：name.ext → name_图标包；已存在时依次尝试 name_图标包_1、name_图标包_2…
+ */
+async function nextIconPackDir(outputDir: string, inputPath: string) {
+  const normalizedOutputDir = path.resolve(outputDir);
+  const base = path.basename(inputPath, path.extname(inputPath));
+  let n = 0;
+  while (true) {
+    const candidate = path.resolve(
+      normalizedOutputDir,
+      n === 0 ? `${base}_图标包` : `${base}_图标包_${n}`
+    );
+    try {
+      await fs.stat(candidate);
+      n++;
+    } catch {
+      // 路径不存在，当前候选名可用
+      return candidate;
+    }
+  }
+}
+
+// 目标文件大小与自动质量模式的质量搜索范围
+const MIN_SEARCH_QUALITY = 10;
+const MAX_SEARCH_QUALITY = 95;
+// 缩小尺寸时使用的质量：避免与过低的质量叠加导致画面严重劣化
+const SCALE_QUALITY = 60;
+// 缩小尺寸的最大尝试次数与最小缩放比例
+const MAX_SCALE_ATTEMPTS = 6;
+const MIN_SCALE = 0.1;
+// 自动质量模式的默认目标结构相似度
+const DEFAULT_TARGET_SSIM = 0.98;
+// 可包含多帧的格式：读取全部帧，多帧图片也只能输出为这些格式
+const ANIMATED_EXTS = [".gif", ".webp"];
+
+// 调色板格式（GIF、BMP）的颜色数：质量越低颜色越少
+function paletteColours(quality: number, max = 256) {
+  return Math.max(2, Math.min(max, Math.round((256 * quality) / 100)));
+}
+
+/**
+ * 按扩展名配置对应格式的有损编码器
+ * @param settings 各格式的高级编码设置，未设置的项使用默认值
+ */
+function applyCompressEncoder(
+  image: sharp.Sharp,
+  ext: string,
+  quality: number,
+  settings: EncoderSettings = {}
+): sharp.Sharp {
+  switch (ext) {
+    case ".jpg":
+    case ".jpeg": {
+      // 使用 mozjpeg 的默认优化参数；optimiseScans 会强制输出渐进式，因此只在渐进式时开启
+      const { progressive = true, chromaSubsampling } = settings.jpeg ?? {};
+      return image.jpeg({
+        quality,
+        progressive,
+        chromaSubsampling,
+        trellisQuantisation: true,
+        overshootDeringing: true,
+        optimiseScans: progressive,
+        quantisationTable: 3,
+      });
+    }
+    case ".png": {
+      // PNG：默认启用调色板并提高压缩等级，quality 表示输出质量倾向
+      const {
+        progressive,
+        palette = true,
+        colors,
+        dither,
+      } = settings.png ?? {};
+      return image.png({
+        quality,
+        compressionLevel: 9,
+        progressive,
+        palette,
+        colours: colors,
+        dither,
+      });
+    }
+    case ".webp": {
+      // WebP 有损压缩；nearLossless 时 quality 表示预处理的强度
+      const { effort, nearLossless } = settings.webp ?? {};
+      return image.webp({ quality, effort, nearLossless });
+    }
+    case ".tif":
+    case ".tiff": {
+      // TIFF：compression 为 jpeg/webp 时 quality 才生效
+      const { compression, predictor } = settings.tiff ?? {};
+      return image.tiff({ quality, compression, predictor });
+    }
+    case ".avif": {
+      const { effort, chromaSubsampling } = settings.avif ?? {};
+      return image.avif({ quality, effort, chromaSubsampling });
+    }
+    case ".gif": {
+      // GIF：按质量减少调色板颜色数，并允许帧间有少量误差以复用上一帧的像素
+      const { colors, dither, effort } = settings.gif ?? {};
+      return image.gif({
+        colours: paletteColours(quality, colors),
+        dither,
+        effort,
+        interFrameMaxError: Math.round(((100 - quality) / 100) * 32),
+      });
+    }
+    default:
+      throw new Error("unsupported format");
+  }
+}
+
+// 支持无损编码的输出格式（JPEG、BMP 没有无损模式）
+const LOSSLESS_EXTS = [".png", ".webp", ".avif", ".tif", ".tiff", ".gif"];
+// TIFF 的无损压缩方式
+const LOSSLESS_TIFF_COMPRESSIONS = ["none", "deflate", "lzw", "packbits"];
+
+/**
+ * 按扩展名配置对应格式的无损编码器
+ * - sharp 默认不保留 EXIF/XMP 等元数据，输出即已去除元数据
+ * - 高级设置中只采用不影响画质的项（PNG 隔行扫描、TIFF 的无损压缩方式与预测器）
+ */
+function applyLosslessEncoder(
+  image: sharp.Sharp,
+  ext: string,
+  settings: EncoderSettings = {}
+): sharp.Sharp {
+  switch (ext) {
+    case ".png":
+      // PNG：不做调色板量化，使用最高压缩等级与最大压缩力度
+      return image.png({
+        compressionLevel: 9,
+        adaptiveFiltering: true,
+        palette: false,
+        effort: 10,
+        progressive: settings.png?.progressive,
+      });
+    case ".webp":
+      return image.webp({ lossless: true, effort: 6 });
+    case ".avif":
+      return image.avif({ lossless: true });
+    case ".gif":
+      // GIF：复用原调色板，不抖动、不做帧间有损优化
+      return image.gif({ reuse: true, dither: 0, effort: 10 });
+    case ".tif":
+    case ".tiff": {
+      // TIFF：默认 deflate 压缩配合水平预测器
+      const { compression, predictor = "horizontal" } = settings.tiff ?? {};
+      return image.tiff({
+        compression:
+          compression && LOSSLESS_TIFF_COMPRESSIONS.includes(compression)
+            ? compression
+            : "deflate",
+        predictor,
+      });
+    }
+    default:
+      throw new Error("unsupported format");
+  }
+}
+
+// 压缩输出尺寸（未指定时保持原尺寸）
+type OutputSize = {
+  width: number;
+  height: number;
+  kernel?: ResizeKernelEnum;
+};
+
+/**
+ * 根据尺寸限制计算输出尺寸：保持宽高比，只缩小不放大
+ * @returns 需要缩小时返回目标尺寸，否则返回 undefined
+ */
+function resolveOutputSize(
+  width?: number,
+  height?: number,
+  resize?: CompressResizeOptions
+): OutputSize | undefined {
+  if (!resize || !width || !height) return undefined;
+  let ratio = 1;
+  if (resize.percent) ratio = Math.min(ratio, resize.percent / 100);
+  if (resize.maxWidth) ratio = Math.min(ratio, resize.maxWidth / width);
+  if (resize.maxHeight) ratio = Math.min(ratio, resize.maxHeight / height);
+  if (resize.longEdge) {
+    ratio = Math.min(ratio, resize.longEdge / Math.max(width, height));
+  }
+  if (ratio >= 1) return undefined;
+  return scaleOutputSize({ width, height, kernel: resize.kernel }, ratio);
+}
+
+// 在基准尺寸上按比例缩小
+function scaleOutputSize(base: OutputSize, scale: number): OutputSize {
+  return {
+    width: Math.max(1, Math.round(base.width * scale)),
+    height: Math.max(1, Math.round(base.height * scale)),
+    kernel: base.kernel,
+  };
+}
+
+/**
+ * 读取图片：BMP 借助 sharp-bmp 解码，animated 时读取全部帧
+ */
+function openImage(input: string | Buffer, ext: string, animated = false) {
+  if (ext === ".bmp") return bmp.sharpFromBmp(input) as sharp.Sharp;
+  // failOn: "none" 避免遇到损坏元数据时抛错
+  return sharp(input, { failOn: "none", animated });
+}
+
+/**
+ * 按色彩配置文件选项设置输出
+ * - sharp 默认把色彩转换为 sRGB 并去除配置文件，即 STRIP
+ * - 输出格式不支持嵌入配置文件（BMP、GIF、ICO）时同样按 STRIP 处理
+ */
+function applyColorProfile(
+  image: sharp.Sharp,
+  ext: string,
+  profile?: ColorProfileEnum
+) {
+  const format = formatOfFileName(ext);
+  if (!format || !CONVERT_FORMATS[format].icc) return image;
+  if (profile === ColorProfileEnum.SRGB) return image.withIccProfile("srgb");
+  if (profile === ColorProfileEnum.KEEP) return image.keepIccProfile();
+  return image;
+}
+
+/**
+ * 读取图片并按需缩放（宽高均已按比例计算，直接拉伸到该尺寸）
+ * - GIF、WebP 读取全部帧，缩放作用于每一帧
+ */
+function createCompressImage(inputPath: string, size?: OutputSize) {
+  const ext = path.extname(inputPath).toLowerCase();
+  const image = openImage(inputPath, ext, ANIMATED_EXTS.includes(ext));
+  if (!size) return image;
+  return image.resize({
+    width: size.width,
+    height: size.height,
+    fit: "fill",
+    kernel: size.kernel,
+  });
+}
+
+/**
+ * 无损编码到内存
+ */
+function encodeLosslessToBuffer(
+  inputPath: string,
+  ext: string,
+  size?: OutputSize,
+  settings?: EncoderSettings,
+  profile?: ColorProfileEnum
+): Promise<Buffer> {
+  const image = applyColorProfile(
+    createCompressImage(inputPath, size),
+    ext,
+    profile
+  );
+  return applyLosslessEncoder(image, ext, settings).toBuffer();
+}
+
+/**
+ * 编码为 8 位索引色 BMP：先借助 PNG 调色板量化颜色，BMP 不支持透明，透明区域填充白色
+ */
+async function encodeBmpToBuffer(image: sharp.Sharp, quality: number) {
+  const quantized = await image
+    .flatten({ background: "#ffffff" })
+    .png({ palette: true, colours: paletteColours(quality) })
+    .toBuffer();
+  const { data, info } = await sharp(quantized)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return encodeBmp8(data, info.width, info.height, info.channels);
+}
+
+/**
+ * 按指定质量与尺寸编码到内存
+ */
+function encodeToBuffer(
+  inputPath: string,
+  ext: string,
+  quality: number,
+  size?: OutputSize,
+  settings?: EncoderSettings,
+  profile?: ColorProfileEnum
+): Promise<Buffer> {
+  const image = applyColorProfile(
+    createCompressImage(inputPath, size),
+    ext,
+    profile
+  );
+  if (ext === ".bmp") return encodeBmpToBuffer(image, quality);
+  return applyCompressEncoder(image, ext, quality, settings).toBuffer();
+}
+
+/**
+ * 寻找满足目标文件大小的编码结果
+ * @param size 尺寸限制计算出的输出尺寸，缩放时以此为基准
+ * @param settings 各格式的高级编码设置
+ * @returns data 编码数据；quality/scale 实际使用的质量与缩放比例；targetMet 是否满足目标
  *
  * 行为说明：
- * - 非文件或不支持的格式会返回失败项，但不影响其他文件的处理
- * - 输出文件扩展名保持与输入一致（不会跨格式转换）
- * - 命名规则遵循“原文件名_压缩”/“原文件名_压缩_序号”，避免重名
+ * - 先在原尺寸下二分查找不超过目标大小的最高质量
+ * - 最低质量仍超出目标时，若允许缩放则按面积比例逐步缩小尺寸
+ * - 仍无法满足时返回尝试过的最小结果，并标记 targetMet 为 false
  */
-export async function compressFiles(
-  filePaths: string[],
-  outputDir: string,
-  quality?: number
-): Promise<{ success: boolean; results: CompressResult[] }> {
-  if (!filePaths || filePaths.length === 0) {
-    return { success: true, results: [] };
+async function compressToTargetSize(
+  inputPath: string,
+  ext: string,
+  targetSize: number,
+  allowScale: boolean,
+  signal: AbortSignal,
+  size?: OutputSize,
+  settings?: EncoderSettings,
+  profile?: ColorProfileEnum
+): Promise<{
+  data: Buffer;
+  quality: number;
+  scale: number;
+  targetMet: boolean;
+}> {
+  let low = MIN_SEARCH_QUALITY;
+  let high = MAX_SEARCH_QUALITY;
+  let fit: { data: Buffer; quality: number } | undefined;
+  let smallest: { data: Buffer; quality: number } | undefined;
+  while (low <= high) {
+    signal.throwIfAborted();
+    const quality = Math.floor((low + high) / 2);
+    const data = await encodeToBuffer(
+      inputPath,
+      ext,
+      quality,
+      size,
+      settings,
+      profile
+    );
+    if (data.length <= targetSize) {
+      fit = { data, quality };
+      low = quality + 1;
+    } else {
+      if (!smallest || data.length < smallest.data.length) {
+        smallest = { data, quality };
+      }
+      high = quality - 1;
+    }
+  }
+  if (fit) return { ...fit, scale: 1, targetMet: true };
+
+  let best = { ...smallest!, scale: 1 };
+  const { width, height } =
+    size ??
+    (await openImage(
+      inputPath,
+      path.extname(inputPath).toLowerCase()
+    ).metadata());
+  if (!allowScale || !width || !height) return { ...best, targetMet: false };
+  const base: OutputSize = { width, height, kernel: size?.kernel };
+
+  let scale = 1;
+  let bytes = (
+    await encodeToBuffer(inputPath, ext, SCALE_QUALITY, size, settings, profile)
+  ).length;
+  let failedScale = 1; // 已知超出目标的最小缩放比例
+  let scaledFit: { data: Buffer; scale: number } | undefined;
+  for (let i = 0; i < MAX_SCALE_ATTEMPTS; i++) {
+    signal.throwIfAborted();
+    if (scaledFit) {
+      // 已满足目标但余量过大：在满足与超出之间二分，尽量保留尺寸
+      if (scaledFit.data.length >= targetSize * 0.9) break;
+      scale = (scaledFit.scale + failedScale) / 2;
+    } else {
+      if (scale <= MIN_SCALE) break;
+      // 文件大小大致与像素数成正比，按面积比例估算下一次的缩放比例（留 5% 余量）
+      scale = Math.max(MIN_SCALE, scale * Math.sqrt(targetSize / bytes) * 0.95);
+    }
+    const data = await encodeToBuffer(
+      inputPath,
+      ext,
+      SCALE_QUALITY,
+      scaleOutputSize(base, scale),
+      settings,
+      profile
+    );
+    bytes = data.length;
+    if (bytes <= targetSize) {
+      scaledFit = { data, scale };
+    } else {
+      failedScale = Math.min(failedScale, scale);
+      if (bytes < best.data.length) {
+        best = { data, quality: SCALE_QUALITY, scale };
+      }
+    }
+  }
+  if (scaledFit) {
+    return { ...scaledFit, quality: SCALE_QUALITY, targetMet: true };
+  }
+  return { ...best, targetMet: false };
+}
+
+// 解码为单通道灰度像素，用于计算结构相似度
+async function decodeLuma(image: sharp.Sharp) {
+  const { data, info } = await image
+    .removeAlpha()
+    .toColourspace("b-w")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * 寻找结构相似度满足目标的最低质量
+ * @param size 尺寸限制计算出的输出尺寸，相似度以该尺寸下的原图为参考
+ * @param settings 各格式的高级编码设置
+ * @returns data 编码数据；quality 实际使用的质量；ssim 输出与原图的结构相似度；targetMet 是否满足目标
+ *
+ * 行为说明：
+ * - 参考图与编码结果均解码为灰度后计算 SSIM（质量越高 SSIM 越接近 1），动图按全部帧计算
+ * - 在质量范围内二分查找 SSIM 不低于目标的最低质量
+ * - 最高质量仍达不到目标时返回最高质量的结果，并标记 targetMet 为 false
+ */
+async function compressToTargetSsim(
+  inputPath: string,
+  ext: string,
+  targetSsim: number,
+  signal: AbortSignal,
+  size?: OutputSize,
+  settings?: EncoderSettings,
+  profile?: ColorProfileEnum
+): Promise<{
+  data: Buffer;
+  quality: number;
+  scale: number;
+  ssim: number;
+  targetMet: boolean;
+}> {
+  const reference = await decodeLuma(createCompressImage(inputPath, size));
+  const measure = async (quality: number) => {
+    signal.throwIfAborted();
+    const data = await encodeToBuffer(
+      inputPath,
+      ext,
+      quality,
+      size,
+      settings,
+      profile
+    );
+    const decoded = await decodeLuma(
+      openImage(data, ext, ANIMATED_EXTS.includes(ext))
+    );
+    if (
+      decoded.width !== reference.width ||
+      decoded.height !== reference.height
+    ) {
+      throw new Error("编码结果尺寸与原图不一致，无法计算相似度");
+    }
+    const ssim = computeSsim(
+      reference.data,
+      decoded.data,
+      reference.width,
+      reference.height
+    );
+    return { data, quality, ssim: Math.round(ssim * 10000) / 10000 };
+  };
+
+  let low = MIN_SEARCH_QUALITY;
+  let high = MAX_SEARCH_QUALITY;
+  let fit: Awaited<ReturnType<typeof measure>> | undefined;
+  let unmet: Awaited<ReturnType<typeof measure>> | undefined; // 未达到目标的最高质量结果
+  while (low <= high) {
+    const result = await measure(Math.floor((low + high) / 2));
+    if (result.ssim >= targetSsim) {
+      fit = result;
+      high = result.quality - 1;
+    } else {
+      unmet = result;
+      low = result.quality + 1;
+    }
+  }
+  if (fit) return { ...fit, scale: 1, targetMet: true };
+  // 没有满足目标的质量时，最后一次尝试的就是最高质量
+  return { ...unmet!, scale: 1, targetMet: false };
+}
+
+/**
+ * 获取压缩输出的候选扩展名
+ * - ORIGINAL：与输入一致
+ * - WEBP / AVIF / PNG：转为对应格式
+ * - SMALLEST：原格式、WebP、AVIF 均编码一次，取体积最小者
+ */
+function resolveCompressExts(inputExt: string, format?: CompressFormatEnum) {
+  switch (format) {
+    case CompressFormatEnum.WEBP:
+      return [".webp"];
+    case CompressFormatEnum.AVIF:
+      return [".avif"];
+    case CompressFormatEnum.PNG:
+      return [".png"];
+    case CompressFormatEnum.SMALLEST:
+      return [...new Set([inputExt, ".webp", ".avif"])];
+    default:
+      return [inputExt];
+  }
+}
+
+// 单个候选格式的压缩结果
+type CompressedImage = {
+  ext: string;
+  data: Buffer;
+  quality?: number;
+  scale: number;
+  lossless?: boolean;
+  minified?: boolean; // SVG 标记精简
+  targetMet?: boolean;
+  ssim?: number;
+};
+
+// 候选结果 a 是否优于 b：优先满足目标大小，其次体积更小
+function isBetterCompressed(a: CompressedImage, b: CompressedImage) {
+  if (a.targetMet !== b.targetMet) return a.targetMet === true;
+  return a.data.length < b.data.length;
+}
+
+// 生成任务面板中展示的压缩结果说明
+function describeCompressResult(result: {
+  format?: string;
+  resizedTo?: string;
+  quality?: number;
+  scale: number;
+  lossless?: boolean;
+  minified?: boolean;
+  targetMet?: boolean;
+  ssim?: number;
+  bytesIn: number;
+  bytesOut: number;
+}) {
+  let text = result.lossless
+    ? "无损"
+    : result.minified
+    ? "精简 SVG 标记"
+    : `质量 ${result.quality}`;
+  if (result.format) text = `${result.format}，${text}`;
+  if (result.ssim !== undefined) text += `，SSIM ${result.ssim.toFixed(4)}`;
+  if (result.resizedTo) text += `，尺寸 ${result.resizedTo}`;
+  if (result.scale < 1) text += `，缩放至 ${Math.round(result.scale * 100)}%`;
+  if (result.lossless || result.minified) {
+    const saved = result.bytesIn - result.bytesOut;
+    text +=
+      saved >= 0
+        ? `，节省 ${formatBytes(saved)}`
+        : `，增大 ${formatBytes(-saved)}`;
+  }
+  if (result.targetMet !== false) return text;
+  return result.ssim !== undefined
+    ? `无法达到目标相似度（${text}）`
+    : `无法达到目标大小（${text}）`;
+}
+
+// 目标文件大小模式必须指定目标大小
+function assertCompressOptions(options: CompressOptions) {
+  const { targetSize } = options;
+  if (
+    options.mode === CompressModeEnum.TARGET_SIZE &&
+    !(typeof targetSize === "number" && targetSize > 0)
+  ) {
+    throw new Error("目标文件大小模式需要指定目标大小");
   }
+}
 
+/**
+ * 按压缩选项在内存中编码单个图片（批量压缩与压缩预览共用）
+ * @returns encoded 最优的候选结果；width/height 原图尺寸；outputSize 尺寸限制计算出的输出尺寸
+ *
+ * 行为说明：
+ * - 依次编码各候选格式，优先满足目标大小，其次取体积最小者
+ * - 无损模式下 JPEG、BMP 不是候选格式，多帧动图只能输出为 GIF、WebP，没有可用格式时抛出错误
+ * - SVG 只精简标记（去除编辑器元数据、注释与多余精度），输出仍为 SVG
+ */
+async function encodeCompressed(
+  inputPath: string,
+  options: CompressOptions,
+  signal: AbortSignal
+) {
   // 质量校验与默认值处理
+  const { quality, targetSize } = options;
   const q =
     typeof quality === "number" && quality >= 1 && quality <= 100
       ? quality
       : 80;
-  const targetDir = await resolveOutputDir(outputDir);
-
-  const tasks = filePaths.map(async (inputPath): Promise<CompressResult> => {
-    try {
-      const stat = await fs.stat(inputPath);
-      if (!stat.isFile()) {
-        return {
-          inputPath,
-          outputPath: "",
-          success: false,
-          error: "not a file",
-        };
-      }
-
-      const ext = path.extname(inputPath).toLowerCase();
-      if (!isSupportedFormat(ext)) {
-        return {
-          inputPath,
-          outputPath: "",
-          success: false,
-          error: "unsupported format",
-        };
-      }
+  const isTargetMode = options.mode === CompressModeEnum.TARGET_SIZE;
+  const isLossless = options.mode === CompressModeEnum.LOSSLESS;
+  const isAuto = options.mode === CompressModeEnum.AUTO;
+
+  const ext = path.extname(inputPath).toLowerCase();
+  if (ext === ".svg") {
+    // SVG 只精简标记，不受压缩模式、输出格式与尺寸限制影响
+    const source = await fs.readFile(inputPath, "utf8");
+    const data = Buffer.from(
+      minifySvg(source, options.encoders?.svg?.precision)
+    );
+    const { width, height } = await sharp(inputPath)
+      .metadata()
+      .catch(() => ({ width: undefined, height: undefined }));
+    const encoded: CompressedImage = { ext, data, scale: 1, minified: true };
+    return { encoded, width, height, outputSize: undefined };
+  }
 
-      const outputPath = await nextOutputPath(targetDir, inputPath);
-      console.log(`准备写入文件: ${outputPath}`);
+  const {
+    width,
+    height,
+    pages = 1,
+  } = await openImage(inputPath, ext).metadata();
+  const animated = pages > 1;
+  const outputExts = resolveCompressExts(ext, options.format)
+    .filter((v) => !isLossless || LOSSLESS_EXTS.includes(v))
+    .filter((v) => !animated || ANIMATED_EXTS.includes(v));
+  if (!outputExts.length) {
+    const name = ext.slice(1).toUpperCase();
+    throw new Error(
+      animated
+        ? "动图只能输出为 GIF 或 WebP，请选择保持原格式或 WebP 输出格式"
+        : `${name} 不支持无损压缩，请选择 PNG、WebP 或 AVIF 输出格式`
+    );
+  }
 
-      // 确保输出文件的父目录存在
-      const outputParentDir = path.dirname(outputPath);
-      try {
-        await ensureDir(outputParentDir);
-        // 验证目录确实存在且可写
-        const parentStat = await fs.stat(outputParentDir);
-        if (!parentStat.isDirectory()) {
-          throw new Error(`输出目录不是有效的目录: ${outputParentDir}`);
+  const outputSize = resolveOutputSize(width, height, options.resize);
+
+  // 逐个候选格式编码，保留最优的结果
+  let encoded: CompressedImage | undefined;
+  for (const outputExt of outputExts) {
+    // sharp 无法中途停止编码，只能在每次编码前检查是否已取消
+    signal.throwIfAborted();
+    const candidate: CompressedImage = isLossless
+      ? {
+          ext: outputExt,
+          data: await encodeLosslessToBuffer(
+            inputPath,
+            outputExt,
+            outputSize,
+            options.encoders,
+            options.colorProfile
+          ),
+          scale: 1,
+          lossless: true,
         }
-        console.log(`输出目录已验证: ${outputParentDir}`);
-      } catch (dirError) {
-        const dirErrorMsg =
-          dirError instanceof Error ? dirError.message : String(dirError);
-        const dirErrorCode =
-          dirError && typeof dirError === "object" && "code" in dirError
-            ? String(dirError.code)
-            : undefined;
-        console.error(`无法创建或验证输出目录: ${outputParentDir}`, {
-          error: dirErrorMsg,
-          code: dirErrorCode,
-        });
-        throw new Error(`无法创建输出目录: ${dirErrorMsg}`);
-      }
-
-      // failOn: "none" 避免遇到损坏元数据时抛错
-      const image = sharp(inputPath, { failOn: "none" });
-
-      switch (ext) {
-        case ".jpg":
-        case ".jpeg":
-          // 使用 mozjpeg 优化 JPEG 压缩
-          await image.jpeg({ quality: q, mozjpeg: true }).toFile(outputPath);
-          break;
-        case ".png":
-          // PNG：启用调色板并提高压缩等级，quality 表示输出质量倾向
-          await image
-            .png({ quality: q, compressionLevel: 9, palette: true })
-            .toFile(outputPath);
-          break;
-        case ".webp":
-          // WebP 有损压缩
-          await image.webp({ quality: q }).toFile(outputPath);
-          break;
-        case ".tif":
-        case ".tiff":
-          // TIFF 有损压缩（若需无损可改用 compression/ predictor 配置）
-          await image.tiff({ quality: q }).toFile(outputPath);
-          break;
-        case ".avif":
-          // AVIF 有损压缩（可结合 chromaSubsampling 等参数进一步调优）
-          await image.avif({ quality: q }).toFile(outputPath);
-          break;
-        default:
-          return {
+      : isAuto
+      ? {
+          ext: outputExt,
+          ...(await compressToTargetSsim(
             inputPath,
-            outputPath: "",
-            success: false,
-            error: "unsupported format",
-          };
-      }
-
-      console.log(`成功压缩文件: ${inputPath} -> ${outputPath}`);
-      return { inputPath, outputPath, success: true };
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      const errorCode =
-        e && typeof e === "object" && "code" in e ? String(e.code) : undefined;
-      const errorStack = e instanceof Error ? e.stack : undefined;
-      console.error(`压缩文件失败: ${inputPath}`, {
-        error: msg,
-        code: errorCode,
-        stack: errorStack,
-      });
-      return { inputPath, outputPath: "", success: false, error: msg };
+            outputExt,
+            options.targetSsim ?? DEFAULT_TARGET_SSIM,
+            signal,
+            outputSize,
+            options.encoders,
+            options.colorProfile
+          )),
+        }
+      : isTargetMode
+      ? {
+          ext: outputExt,
+          ...(await compressToTargetSize(
+            inputPath,
+            outputExt,
+            targetSize!,
+            options.allowScale ?? false,
+            signal,
+            outputSize,
+            options.encoders,
+            options.colorProfile
+          )),
+        }
+      : {
+          ext: outputExt,
+          data: await encodeToBuffer(
+            inputPath,
+            outputExt,
+            q,
+            outputSize,
+            options.encoders,
+            options.colorProfile
+          ),
+          quality: q,
+          scale: 1,
+        };
+    if (!encoded || isBetterCompressed(candidate, encoded)) {
+      encoded = candidate;
     }
-  });
-
-  const results = await Promise.all(tasks);
-  const allSuccess = results.every((r) => r.success);
-  if (!allSuccess) {
-    const failedCount = results.filter((r) => !r.success).length;
-    console.error(
-      `压缩操作部分失败: ${failedCount}/${results.length} 个文件失败`
-    );
-    results.forEach((r) => {
-      if (!r.success) {
-        console.error(`  - ${r.inputPath}: ${r.error}`);
-      }
-    });
   }
-  return { success: allSuccess, results };
+  if (!encoded) throw new Error("unsupported format");
+  return { encoded, width, height, outputSize };
 }
 
 /**
- * 批量格式转换（不影响原文件）
- * @param files 文件对象数组（仅图片类型有效）
- * @param outputDir 输出目录（不存在将自动创建）
- * @param targetFormat 目标格式（支持 jpg、png、bmp）
- * @returns { success, results }：总体成功标记与逐项结果
+ * 读取编码结果的实际输出尺寸并生成结果说明
+ */
+async function summarizeCompressed(
+  encoded: CompressedImage,
+  inputExt: string,
+  bytesIn: number,
+  original: { width?: number; height?: number },
+  outputSize?: OutputSize
+) {
+  // 缩放后的尺寸从输出数据读取，未缩放时与原图一致
+  const output =
+    outputSize || encoded.scale < 1
+      ? await openImage(encoded.data, encoded.ext).metadata()
+      : original;
+  return {
+    width: output.width,
+    height: output.height,
+    detail: describeCompressResult({
+      ...encoded,
+      bytesIn,
+      bytesOut: encoded.data.length,
+      resizedTo: outputSize ? `${output.width}x${output.height}` : undefined,
+      format:
+        encoded.ext !== inputExt
+          ? encoded.ext.slice(1).toUpperCase()
+          : undefined,
+    }),
+  };
+}
+
+/**
+ * 批量压缩图片文件
+ * @param filePaths 需要压缩的图片绝对路径数组（仅文件）
+ * @param outputDir 压缩后输出目录（不存在将自动创建）
+ * @param options 可选压缩选项：mode 压缩模式（固定质量/目标大小/无损/自动质量）；quality 固定质量（1-100，默认 80）；
+ *   targetSize 目标文件大小（字节）；targetSsim 目标结构相似度；allowScale 是否允许缩小尺寸；format 输出格式；
+ *   noGainAction 无压缩收益时的处理方式；minSavingsPercent 最小节省比例（%）；
+ *   resize 尺寸限制（最大宽高、长边或百分比，以及缩放算法）；encoders 各格式的高级编码设置；
+ *   colorProfile 色彩配置文件的处理方式（转换为 sRGB 并嵌入、保留原配置文件或去除，默认去除）
+ * @param job 可选任务选项（任务 ID 用于区分推送的进度事件）
+ * @returns { success, cancelled, results }：总体成功标记、是否被取消与逐项结果（含完成/失败/取消状态）
  *
  * 行为说明：
- * - 非图片或非文件会返回失败项，但不影响其他文件处理
- * - 始终生成新文件，命名遵循“原文件名_转换”/“原文件名_转换_序号”，避免重名
- * - JPG 采用 mozjpeg 优化；PNG 使用默认编码；BMP 通过 sharp-bmp 输出
+ * - 文件通过共享任务队列以有限并发处理，每个文件的进度通过 jobEvents 推送
+ * - 可通过 cancelJob 取消：排队的文件不再处理，处理中的文件在编码完成后删除输出
+ * - 非文件或不支持的格式会返回失败项，但不影响其他文件的处理
+ * - 默认输出与输入格式一致；指定 format 时转为 WebP/AVIF/PNG，或在多个格式中取体积最小者，
+ *   扩展名随输出格式变化
+ * - GIF 与动态 WebP 保留全部帧：GIF 按质量减少调色板颜色数；多帧动图只能输出为 GIF 或 WebP
+ * - BMP 量化为 8 位索引色后写回 BMP（也可选择输出为 PNG），透明区域填充白色
+ * - SVG 只精简标记（去除编辑器元数据、注释与多余精度），不受压缩模式、输出格式与尺寸限制影响
+ * - 命名规则遵循“原文件名_压缩”/“原文件名_压缩_序号”，避免重名
+ * - 目标文件大小模式下逐个文件搜索质量（及缩放比例），结果中返回实际质量；
+ *   无法达到目标时仍输出尝试过的最小结果，并将 targetMet 标记为 false
+ * - 自动质量模式下逐个文件寻找 SSIM 不低于 targetSsim 的最低质量，结果中返回实际质量与 SSIM；
+ *   最高质量仍达不到目标时输出最高质量的结果，并将 targetMet 标记为 false
+ * - 无损模式：PNG 不量化、WebP/AVIF 无损、TIFF 使用 deflate、GIF 复用原调色板；
+ *   JPEG、BMP 没有无损模式，需选择其他输出格式，否则返回失败项
+ * - 指定 resize 时先按比例缩小到限制内（不放大），结果中记录实际输出尺寸
+ * - 输出没有比原图小 minSavingsPercent% 以上时视为无压缩收益（skipped）：默认丢弃输出，
+ *   也可改为原样复制原图，或仍保留压缩结果
  */
-export async function convertFiles(
-  tasks: { file: FileItem; targetFormat: "jpg" | "png" | "bmp" }[],
-  outputDir: string
-): Promise<{ success: boolean; results: ConvertResult[] }> {
-  if (!tasks || tasks.length === 0) {
-    return { success: true, results: [] };
+export async function compressFiles(
+  filePaths: string[],
+  outputDir: string,
+  options: CompressOptions = {},
+  job?: BatchJobOptions
+): Promise<BatchJobResult<CompressFileResult>> {
+  if (!filePaths || filePaths.length === 0) {
+    return { success: true, cancelled: false, results: [] };
   }
 
+  const noGainAction = options.noGainAction ?? NoGainActionEnum.SKIP;
+  const minSavings = Math.min(90, Math.max(0, options.minSavingsPercent ?? 0));
+  assertCompressOptions(options);
   const targetDir = await resolveOutputDir(outputDir);
 
-  const jobs = tasks.map(
-    async ({ file, targetFormat }): Promise<ConvertResult> => {
-      const inputPath = file.path;
+  const tasks = runBatchJob({
+    jobId: job?.jobId,
+    kind: JobKindEnum.COMPRESS,
+    items: filePaths,
+    getInputPath: (inputPath) => inputPath,
+    run: async (inputPath, signal): Promise<CompressResult> => {
+      let outputPath = "";
       try {
-        if (file.type !== FileItemTypeEnum.IMAGE) {
+        const stat = await fs.stat(inputPath);
+        if (!stat.isFile()) {
           return {
             inputPath,
             outputPath: "",
             success: false,
-            error: "not an image",
+            error: "not a file",
           };
         }
 
-        const stat = await fs.stat(inputPath);
-        if (!stat.isFile()) {
+        const ext = path.extname(inputPath).toLowerCase();
+        if (!isSupportedFormat(ext)) {
           return {
             inputPath,
             outputPath: "",
             success: false,
-            error: "not a file",
+            error: "unsupported format",
           };
         }
 
-        const fmt = String(targetFormat).toLowerCase();
-        if (!["jpg", "png", "bmp"].includes(fmt)) {
+        const { encoded, width, height, outputSize } = await encodeCompressed(
+          inputPath,
+          options,
+          signal
+        );
+
+        // 体积守卫：输出必须比原图小，且至少节省 minSavings%
+        const noGain =
+          noGainAction !== NoGainActionEnum.KEEP &&
+          (encoded.data.length >= stat.size ||
+            encoded.data.length > stat.size * (1 - minSavings / 100));
+        if (noGain && noGainAction === NoGainActionEnum.SKIP) {
+          console.log(`无压缩收益，跳过: ${inputPath}`);
           return {
             inputPath,
             outputPath: "",
-            success: false,
-            error: "unsupported target format",
+            success: true,
+            skipped: true,
+            bytesIn: stat.size,
+            width,
+            height,
+            detail: `无压缩收益，已跳过（压缩后 ${formatBytes(
+              encoded.data.length
+            )}）`,
           };
         }
 
-        const targetExt =
-          fmt === "jpg" ? ".jpg" : fmt === "png" ? ".png" : ".bmp";
-        const outputPath = await nextConvertedOutputPath(
+        // 复制原图时保持原扩展名
+        outputPath = await nextOutputPath(
           targetDir,
           inputPath,
-          targetExt
+          noGain ? undefined : encoded.ext
         );
-        console.log(`准备转换文件: ${inputPath} -> ${outputPath}`);
+        console.log(`准备写入文件: ${outputPath}`);
 
         // 确保输出文件的父目录存在
         const outputParentDir = path.dirname(outputPath);
@@ -814,7 +1525,7 @@ export async function convertFiles(
             dirError instanceof Error ? dirError.message : String(dirError);
           const dirErrorCode =
             dirError && typeof dirError === "object" && "code" in dirError
-              ? String((dirError as { code: unknown }).code)
+              ? String(dirError.code)
               : undefined;
           console.error(`无法创建或验证输出目录: ${outputParentDir}`, {
             error: dirErrorMsg,
@@ -822,18 +1533,55 @@ export async function convertFiles(
           });
           throw new Error(`无法创建输出目录: ${dirErrorMsg}`);
         }
-        const image = sharp(inputPath, { failOn: "none" });
 
-        if (fmt === "jpg") {
-          await image.jpeg({ mozjpeg: true }).toFile(outputPath);
-        } else if (fmt === "png") {
-          await image.png().toFile(outputPath);
-        } else {
-          await bmp.sharpToBmp(image, outputPath);
+        signal.throwIfAborted();
+        if (noGain) {
+          await fs.copyFile(inputPath, outputPath);
+          console.log(`无压缩收益，已复制原图: ${inputPath} -> ${outputPath}`);
+          return {
+            inputPath,
+            outputPath,
+            success: true,
+            skipped: true,
+            bytesIn: stat.size,
+            bytesOut: stat.size,
+            width,
+            height,
+            outputWidth: width,
+            outputHeight: height,
+            detail: `无压缩收益，已复制原图（压缩后 ${formatBytes(
+              encoded.data.length
+            )}）`,
+          };
         }
-
-        console.log(`成功转换文件: ${inputPath} -> ${outputPath}`);
-        return { inputPath, outputPath, success: true };
+        await fs.writeFile(outputPath, encoded.data);
+
+        console.log(`成功压缩文件: ${inputPath} -> ${outputPath}`);
+        const bytesOut = encoded.data.length;
+        const summary = await summarizeCompressed(
+          encoded,
+          ext,
+          stat.size,
+          { width, height },
+          outputSize
+        );
+        return {
+          inputPath,
+          outputPath,
+          success: true,
+          quality: encoded.quality,
+          scale: encoded.scale,
+          lossless: encoded.lossless,
+          targetMet: encoded.targetMet,
+          ssim: encoded.ssim,
+          bytesIn: stat.size,
+          bytesOut,
+          width,
+          height,
+          outputWidth: summary.width,
+          outputHeight: summary.height,
+          detail: summary.detail,
+        };
       } catch (e) {
         const msg = e instanceof Error ? e.message : String(e);
         const errorCode =
@@ -841,21 +1589,592 @@ export async function convertFiles(
             ? String(e.code)
             : undefined;
         const errorStack = e instanceof Error ? e.stack : undefined;
-        console.error(`转换文件失败: ${inputPath}`, {
+        console.error(`压缩文件失败: ${inputPath}`, {
           error: msg,
           code: errorCode,
           stack: errorStack,
         });
+        await removePartialOutput(outputPath);
         return { inputPath, outputPath: "", success: false, error: msg };
       }
-    }
-  );
+    },
+  });
 
-  const results = await Promise.all(jobs);
-  return { success: results.every((r) => r.success), results };
+  const results = await tasks;
+  const allSuccess = results.every((r) => r.success);
+  const failed = results.filter((r) => r.status === JobFileStatusEnum.FAILED);
+  if (failed.length) {
+    console.error(
+      `压缩操作部分失败: ${failed.length}/${results.length} 个文件失败`
+    );
+    failed.forEach((r) => {
+      console.error(`  - ${r.inputPath}: ${r.error}`);
+    });
+  }
+  return { success: allSuccess, cancelled: isCancelled(results), results };
 }
 
-function escapeXml(s: string) {
+// 单次预览的最长编码时间，超时后放弃本次预览
+const PREVIEW_TIMEOUT_MS = 30000;
+// 浏览器无法直接显示的格式，预览时转为 PNG
+const PREVIEW_UNDISPLAYABLE_EXTS = [".tif", ".tiff"];
+// 进行中的预览（预览 ID -> 取消控制器）
+const previewControllers = new Map<string, AbortController>();
+
+// 转为可在渲染进程中显示的 data URL
+async function toPreviewDataUrl(data: Buffer, ext: string) {
+  if (PREVIEW_UNDISPLAYABLE_EXTS.includes(ext)) {
+    data = await sharp(data, { failOn: "none" }).png().toBuffer();
+    ext = ".png";
+  }
+  return `data:${getMimeType(ext)};base64,${data.toString("base64")}`;
+}
+
+/**
+ * 压缩预览：按压缩选项在内存中编码单个图片，返回结果图片与预计输出大小
+ * @param filePath 图片绝对路径
+ * @param options 压缩选项（与 compressFiles 相同）
+ * @param previewId 可选预览 ID，同一 ID 发起新的预览时取消上一次
+ * @returns CompressPreview 结果图片（data URL）、预计大小与结果说明
+ *
+ * 行为说明：
+ * - 不写入任何文件，也不经过任务队列
+ * - 原图格式浏览器可以显示时只返回结果图片，原图由渲染进程通过 originalUrl 加载
+ * - 编码超过 PREVIEW_TIMEOUT_MS 时放弃（目标大小模式可能需要多次编码）
+ * - 被新的预览取消或通过 cancelPreviewCompression 取消时，在下一次编码前停止
+ */
+export async function previewCompression(
+  filePath: string,
+  options: CompressOptions = {},
+  previewId?: string
+): Promise<CompressPreview> {
+  assertCompressOptions(options);
+  const controller = new AbortController();
+  if (previewId) {
+    previewControllers.get(previewId)?.abort();
+    previewControllers.set(previewId, controller);
+  }
+  try {
+    return await encodePreview(
+      filePath,
+      options,
+      AbortSignal.any([
+        controller.signal,
+        AbortSignal.timeout(PREVIEW_TIMEOUT_MS),
+      ])
+    );
+  } finally {
+    if (previewId && previewControllers.get(previewId) === controller) {
+      previewControllers.delete(previewId);
+    }
+  }
+}
+
+/**
+ * 取消进行中的压缩预览
+ * @param previewId 预览 ID（与 previewCompression 传入的一致）
+ */
+export function cancelPreviewCompression(previewId: string): void {
+  previewControllers.get(previewId)?.abort();
+  previewControllers.delete(previewId);
+}
+
+// 编码预览图片并汇总结果（signal 中止时在下一次编码前停止）
+async function encodePreview(
+  filePath: string,
+  options: CompressOptions,
+  signal: AbortSignal
+): Promise<CompressPreview> {
+  const stat = await fs.stat(filePath);
+  if (!stat.isFile()) throw new Error("not a file");
+  const ext = path.extname(filePath).toLowerCase();
+  if (!isSupportedFormat(ext)) throw new Error("unsupported format");
+
+  const { encoded, width, height, outputSize } = await encodeCompressed(
+    filePath,
+    options,
+    signal
+  );
+  signal.throwIfAborted();
+  const summary = await summarizeCompressed(
+    encoded,
+    ext,
+    stat.size,
+    { width, height },
+    outputSize
+  );
+  return {
+    dataUrl: await toPreviewDataUrl(encoded.data, encoded.ext),
+    originalDataUrl: PREVIEW_UNDISPLAYABLE_EXTS.includes(ext)
+      ? await toPreviewDataUrl(await fs.readFile(filePath), ext)
+      : undefined,
+    ext: encoded.ext,
+    bytesIn: stat.size,
+    bytesOut: encoded.data.length,
+    width,
+    height,
+    outputWidth: summary.width,
+    outputHeight: summary.height,
+    quality: encoded.quality,
+    scale: encoded.scale,
+    lossless: encoded.lossless,
+    targetMet: encoded.targetMet,
+    ssim: encoded.ssim,
+    detail: summary.detail,
+  };
+}
+
+/**
+ * 生成 ICO 图标：每个尺寸等比缩放后居中放在透明的方形画布上
+ */
+async function encodeIcoFromImage(image: sharp.Sharp, sizes: number[]) {
+  const unique = [...new Set(sizes)].sort((a, b) => a - b);
+  const images = await Promise.all(
+    unique.map(async (size) => ({
+      size,
+      png: await image
+        .clone()
+        .resize(size, size, {
+          fit: "contain",
+          background: { r: 0, g: 0, b: 0, alpha: 0 },
+        })
+        .png()
+        .toBuffer(),
+    }))
+  );
+  return encodeIco(images);
+}
+
+/**
+ * 按目标格式与编码选项写出转换结果（未设置的选项使用注册表中的默认值）
+ */
+async function writeConverted(
+  image: sharp.Sharp,
+  format: ConvertFormat,
+  options: ConvertOptions | undefined,
+  outputPath: string
+) {
+  const o: ConvertOptions = { ...CONVERT_FORMATS[format].defaults, ...options };
+  switch (format) {
+    case "jpg":
+      await image
+        .jpeg({ quality: o.quality, mozjpeg: true })
+        .toFile(outputPath);
+      return;
+    case "png":
+      // 设置颜色数时量化为调色板 PNG，否则保留全彩
+      await (o.colors
+        ? image.png({ palette: true, colors: o.colors })
+        : image.png()
+      ).toFile(outputPath);
+      return;
+    case "bmp":
+      await bmp.sharpToBmp(image, outputPath);
+      return;
+    case "webp":
+      await image
+        .webp({ quality: o.quality, lossless: o.lossless, effort: o.effort })
+        .toFile(outputPath);
+      return;
+    case "avif":
+      await image
+        .avif({ quality: o.quality, lossless: o.lossless, effort: o.effort })
+        .toFile(outputPath);
+      return;
+    case "tiff":
+      await image
+        .tiff({ quality: o.quality, compression: o.compression })
+        .toFile(outputPath);
+      return;
+    case "gif":
+      await image
+        .gif({ colours: o.colors, effort: o.effort })
+        .toFile(outputPath);
+      return;
+    case "heif":
+      // 预编译的 libheif 只包含 AV1 编码器
+      await image
+        .heif({ quality: o.quality, effort: o.effort, compression: "av1" })
+        .toFile(outputPath);
+      return;
+    case "ico":
+      await fs.writeFile(
+        outputPath,
+        await encodeIcoFromImage(image, o.sizes ?? [])
+      );
+      return;
+  }
+}
+
+// 判断透明通道时的并发数
+const ALPHA_DETECT_CONCURRENCY = 8;
+
+/**
+ * 按 sharp 元数据判断图片是否含透明通道
+ * - BMP 经 sharp-bmp 解码后总是带透明通道，按不透明处理
+ */
+async function hasAlphaChannel(inputPath: string) {
+  if (path.extname(inputPath).toLowerCase() === ".bmp") return false;
+  const meta = await sharp(inputPath, { failOn: "none" }).metadata();
+  return !!meta.hasAlpha;
+}
+
+/**
+ * 找出含透明通道的图片（用于转换为不支持透明的格式前提示）
+ * @param filePaths 图片路径数组
+ * @returns 含透明通道的图片路径；无法读取的文件视为不透明
+ */
+export async function detectTransparentImages(
+  filePaths: string[]
+): Promise<string[]> {
+  const flags = await mapWithConcurrency(
+    filePaths,
+    ALPHA_DETECT_CONCURRENCY,
+    (filePath) => hasAlphaChannel(filePath).catch(() => false)
+  );
+  return filePaths.filter((_, i) => flags[i]);
+}
+
+/**
+ * 批量格式转换（不影响原文件）
+ * @param tasks 转换任务数组：文件（仅图片类型有效）、目标格式、编码选项与透明区域填充色
+ * @param outputDir 输出目录（不存在将自动创建）
+ * @param job 可选任务选项（任务 ID 用于区分推送的进度事件）
+ * @returns { success, cancelled, results }：总体成功标记、是否被取消与逐项结果（含完成/失败/取消状态）
+ *
+ * 行为说明：
+ * - 文件通过共享任务队列以有限并发处理，每个文件的进度通过 jobEvents 推送
+ * - 可通过 cancelJob 取消：排队的文件不再处理，处理中的文件在编码完成后删除输出
+ * - 非图片或非文件会返回失败项，但不影响其他文件处理
+ * - 始终生成新文件，命名遵循“原文件名_转换”/“原文件名_转换_序号”，避免重名
+ * - 目标格式与可用编码选项见 CONVERT_FORMATS：JPG 采用 mozjpeg 优化；BMP 通过 sharp-bmp 输出；
+ *   HEIF 使用 AV1 编码；ICO 按所选尺寸打包多张 PNG
+ * - GIF、WebP 动图转为 GIF 或 WebP 时保留全部帧，转为其他格式时只取第一帧
+ * - 含透明通道的图片转为不支持透明的格式（JPG、BMP）时，透明区域填充为 background（默认白色），
+ *   并在结果说明中注明
+ * - colorProfile 控制 ICC 配置文件：转换为 sRGB 并嵌入、保留原配置文件或去除（默认）
+ */
+export async function convertFiles(
+  tasks: ConvertTask[],
+  outputDir: string,
+  job?: BatchJobOptions
+): Promise<BatchJobResult> {
+  if (!tasks || tasks.length === 0) {
+    return { success: true, cancelled: false, results: [] };
+  }
+
+  const targetDir = await resolveOutputDir(outputDir);
+
+  const jobs = runBatchJob({
+    jobId: job?.jobId,
+    kind: JobKindEnum.CONVERT,
+    items: tasks,
+    getInputPath: ({ file }) => file.path,
+    run: async (
+      { file, targetFormat, options, background, colorProfile },
+      signal
+    ): Promise<ConvertResult> => {
+      const inputPath = file.path;
+      let outputPath = "";
+      try {
+        if (file.type !== FileItemTypeEnum.IMAGE) {
+          return {
+            inputPath,
+            outputPath: "",
+            success: false,
+            error: "not an image",
+          };
+        }
+
+        const stat = await fs.stat(inputPath);
+        if (!stat.isFile()) {
+          return {
+            inputPath,
+            outputPath: "",
+            success: false,
+            error: "not a file",
+          };
+        }
+
+        if (!CONVERT_FORMAT_LIST.includes(targetFormat)) {
+          return {
+            inputPath,
+            outputPath: "",
+            success: false,
+            error: "unsupported target format",
+          };
+        }
+
+        const target = CONVERT_FORMATS[targetFormat];
+        outputPath = await nextConvertedOutputPath(
+          targetDir,
+          inputPath,
+          target.ext
+        );
+        console.log(`准备转换文件: ${inputPath} -> ${outputPath}`);
+
+        // 确保输出文件的父目录存在
+        const outputParentDir = path.dirname(outputPath);
+        try {
+          await ensureDir(outputParentDir);
+          // 验证目录确实存在且可写
+          const parentStat = await fs.stat(outputParentDir);
+          if (!parentStat.isDirectory()) {
+            throw new Error(`输出目录不是有效的目录: ${outputParentDir}`);
+          }
+          console.log(`输出目录已验证: ${outputParentDir}`);
+        } catch (dirError) {
+          const dirErrorMsg =
+            dirError instanceof Error ? dirError.message : String(dirError);
+          const dirErrorCode =
+            dirError && typeof dirError === "object" && "code" in dirError
+              ? String((dirError as { code: unknown }).code)
+              : undefined;
+          console.error(`无法创建或验证输出目录: ${outputParentDir}`, {
+            error: dirErrorMsg,
+            code: dirErrorCode,
+          });
+          throw new Error(`无法创建输出目录: ${dirErrorMsg}`);
+        }
+        signal.throwIfAborted();
+        const inputExt = path.extname(inputPath).toLowerCase();
+        const image = openImage(
+          inputPath,
+          inputExt,
+          target.animated && ANIMATED_EXTS.includes(inputExt)
+        );
+        // sharp 默认把透明区域合成为黑色，这里改为铺上指定的背景色
+        let detail: string | undefined;
+        if (!target.alpha && (await hasAlphaChannel(inputPath))) {
+          const color = background ?? DEFAULT_FLATTEN_BACKGROUND;
+          image.flatten({ background: color });
+          detail = `透明区域已填充为 ${color}`;
+        }
+        const pipeline = applyColorProfile(image, target.ext, colorProfile);
+        await writeConverted(pipeline, targetFormat, options, outputPath);
+
+        console.log(`成功转换文件: ${inputPath} -> ${outputPath}`);
+        return { inputPath, outputPath, success: true, detail };
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        const errorCode =
+          e && typeof e === "object" && "code" in e
+            ? String(e.code)
+            : undefined;
+        const errorStack = e instanceof Error ? e.stack : undefined;
+        console.error(`转换文件失败: ${inputPath}`, {
+          error: msg,
+          code: errorCode,
+          stack: errorStack,
+        });
+        await removePartialOutput(outputPath);
+        return { inputPath, outputPath: "", success: false, error: msg };
+      }
+    },
+  });
+
+  const results = await jobs;
+  return {
+    success: results.every((r) => r.success),
+    cancelled: isCancelled(results),
+    results,
+  };
+}
+
+// SVG 导出位图时单边的最大像素数
+const MAX_RASTER_SIZE = 16384;
+// SVG 的默认渲染密度（DPI），此时输出尺寸等于 SVG 的原始尺寸
+const SVG_BASE_DENSITY = 72;
+// libvips 允许的最大渲染密度
+const MAX_SVG_DENSITY = 100000;
+
+type RasterizeResult = {
+  inputPath: string;
+  outputPath: string;
+  outputPaths?: string[]; // 各倍数的输出文件，取消时一并删除
+  success: boolean;
+  detail?: string;
+  error?: string;
+};
+
+/**
+ * 生成 SVG 导出位图的文件名并避免重名
+ * 规则：
+ * - 1 倍图为 name.<ext>，其他倍数追加后缀：name@2x.<ext>、name@1.5x.<ext>
+ * - 任一倍数的文件已存在时，整组改用 name_1、name_2…，保证同一组文件名一致
+ */
+async function nextRasterOutputPaths(
+  outputDir: string,
+  inputPath: string,
+  scales: number[],
+  ext: string
+) {
+  const normalizedOutputDir = path.resolve(outputDir);
+  const base = path.basename(inputPath, path.extname(inputPath));
+  for (let n = 0; ; n++) {
+    const root = n === 0 ? base : `${base}_${n}`;
+    const candidates = scales.map((scale) =>
+      path.resolve(
+        normalizedOutputDir,
+        `${root}${scale === 1 ? "" : `@${scale}x`}${ext}`
+      )
+    );
+    const taken = await Promise.all(
+      candidates.map((candidate) =>
+        fs.stat(candidate).then(
+          () => true,
+          () => false
+        )
+      )
+    );
+    if (!taken.some(Boolean)) return candidates;
+  }
+}
+
+/**
+ * 计算 SVG 1 倍图相对原始尺寸的缩放比例
+ * - 同时设置宽高时等比缩放到不超过该范围；只设置一边时按比例计算另一边
+ * - 未设置宽高时按渲染密度换算（72 DPI 为原始尺寸）
+ */
+function rasterScale(width: number, height: number, options: RasterizeOptions) {
+  if (options.width && options.height) {
+    return Math.min(options.width / width, options.height / height);
+  }
+  if (options.width) return options.width / width;
+  if (options.height) return options.height / height;
+  return (options.density ?? SVG_BASE_DENSITY) / SVG_BASE_DENSITY;
+}
+
+/**
+ * SVG 批量导出位图（PNG、WebP、JPG），不影响原文件
+ * @param filePaths SVG 文件路径数组
+ * @param outputDir 输出目录（不存在将自动创建）
+ * @param options 输出格式、尺寸（宽高或渲染密度）、导出倍数、背景色与质量
+ * @param job 可选任务选项（任务 ID 用于区分推送的进度事件）
+ * @returns { success, cancelled, results }：总体成功标记、是否被取消与逐项结果（含完成/失败/取消状态）
+ *
+ * 行为说明：
+ * - 文件通过共享任务队列以有限并发处理，可通过 cancelJob 取消
+ * - 每个倍数按对应密度重新渲染矢量图，再精确缩放到目标像素尺寸，放大后依然清晰
+ * - 每个 SVG 按倍数生成一组文件（icon.png、icon@2x.png、icon@3x.png），重名时整组追加序号
+ * - 设置背景色时铺底，否则保留透明；JPG 不支持透明，未设置背景色时填充白色
+ * - 单边超过 16384 像素时失败；处理失败时删除这一组已写出的文件
+ */
+export async function rasterizeSvgs(
+  filePaths: string[],
+  outputDir: string,
+  options: RasterizeOptions,
+  job?: BatchJobOptions
+): Promise<BatchJobResult> {
+  if (!filePaths || filePaths.length === 0) {
+    return { success: true, cancelled: false, results: [] };
+  }
+
+  const targetDir = await resolveOutputDir(outputDir);
+  const target = CONVERT_FORMATS[options.format];
+  const scales = [...new Set(options.scales ?? [1])].sort((a, b) => a - b);
+  const background =
+    options.background ??
+    (target.alpha ? undefined : DEFAULT_FLATTEN_BACKGROUND);
+
+  const jobs = runBatchJob({
+    jobId: job?.jobId,
+    kind: JobKindEnum.RASTERIZE,
+    items: filePaths,
+    getInputPath: (inputPath) => inputPath,
+    run: async (inputPath, signal): Promise<RasterizeResult> => {
+      let outputPaths: string[] = [];
+      try {
+        if (path.extname(inputPath).toLowerCase() !== ".svg") {
+          return {
+            inputPath,
+            outputPath: "",
+            success: false,
+            error: "not an svg",
+          };
+        }
+        const stat = await fs.stat(inputPath);
+        if (!stat.isFile()) {
+          return {
+            inputPath,
+            outputPath: "",
+            success: false,
+            error: "not a file",
+          };
+        }
+
+        const { width, height } = await sharp(inputPath).metadata();
+        if (!width || !height) throw new Error("无法读取 SVG 尺寸");
+        const base = rasterScale(width, height, options);
+        const sizes = scales.map((scale) => ({
+          density: SVG_BASE_DENSITY * base * scale,
+          width: Math.max(1, Math.round(width * base * scale)),
+          height: Math.max(1, Math.round(height * base * scale)),
+        }));
+        const largest = sizes[sizes.length - 1];
+        if (
+          largest.width > MAX_RASTER_SIZE ||
+          largest.height > MAX_RASTER_SIZE
+        ) {
+          throw new Error(
+            `输出尺寸 ${largest.width}×${largest.height} 超过上限 ${MAX_RASTER_SIZE} 像素`
+          );
+        }
+
+        outputPaths = await nextRasterOutputPaths(
+          targetDir,
+          inputPath,
+          scales,
+          target.ext
+        );
+        for (const [i, size] of sizes.entries()) {
+          // sharp 无法中途停止编码，只能在每个倍数渲染前检查是否已取消
+          signal.throwIfAborted();
+          // sharp 只接受 1-100000 的密度；超出时按边界渲染，再由 resize 得到精确尺寸
+          const image = sharp(inputPath, {
+            density: Math.max(1, Math.min(MAX_SVG_DENSITY, size.density)),
+          }).resize(size.width, size.height, { fit: "fill" });
+          if (background) image.flatten({ background });
+          await writeConverted(
+            image,
+            options.format,
+            // 未设置质量时沿用该格式的默认值
+            options.quality ? { quality: options.quality } : undefined,
+            outputPaths[i]
+          );
+        }
+
+        console.log(`成功导出 SVG: ${inputPath} -> ${outputPaths.join(", ")}`);
+        return {
+          inputPath,
+          outputPath: outputPaths[0],
+          outputPaths,
+          success: true,
+          detail: sizes
+            .map(
+              (size, i) =>
+                `${path.basename(outputPaths[i])} ${size.width}×${size.height}`
+            )
+            .join("、"),
+        };
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error(`导出 SVG 失败: ${inputPath}`, { error: msg });
+        await Promise.all(outputPaths.map(removePartialOutput));
+        return { inputPath, outputPath: "", success: false, error: msg };
+      }
+    },
+  });
+
+  const results = await jobs;
+  return {
+    success: results.every((r) => r.success),
+    cancelled: isCancelled(results),
+    results,
+  };
+}
+
+function escapeXml(s: string) {
   return s
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
@@ -947,19 +2266,22 @@ export async function addWatermarks(
     angle?: number;
     xRatio?: number;
     yRatio?: number;
-  }
-): Promise<{ success: boolean; results: WatermarkResult[] }> {
+  },
+  job?: BatchJobOptions
+): Promise<BatchJobResult> {
   if (!files || files.length === 0) {
-    return { success: true, results: [] };
+    return { success: true, cancelled: false, results: [] };
   }
   const content = (text ?? "").trim();
   if (!content) {
     return {
       success: false,
+      cancelled: false,
       results: files.map((f) => ({
         inputPath: f.path,
         outputPath: "",
         success: false,
+        status: JobFileStatusEnum.FAILED,
         error: "watermark text empty",
       })),
     };
@@ -967,144 +2289,159 @@ export async function addWatermarks(
   if (content.length > 10) {
     return {
       success: false,
+      cancelled: false,
       results: files.map((f) => ({
         inputPath: f.path,
         outputPath: "",
         success: false,
+        status: JobFileStatusEnum.FAILED,
         error: "watermark text too long",
       })),
     };
   }
   const targetDir = await resolveOutputDir(outputDir);
   const safeText = escapeXml(content);
-  const jobs = files.map(async (file): Promise<WatermarkResult> => {
-    const inputPath = file.path;
-    try {
-      if (file.type !== FileItemTypeEnum.IMAGE) {
-        return {
-          inputPath,
-          outputPath: "",
-          success: false,
-          error: "not an image",
-        };
-      }
-      const stat = await fs.stat(inputPath);
-      if (!stat.isFile()) {
-        return {
-          inputPath,
-          outputPath: "",
-          success: false,
-          error: "not a file",
-        };
-      }
-      const meta = await sharp(inputPath, { failOn: "none" }).metadata();
-      const width = meta.width ?? 0;
-      const height = meta.height ?? 0;
-      if (!width || !height) {
-        throw new Error("无法读取图片尺寸");
-      }
-      const paddingDefault = Math.max(
-        10,
-        Math.round(Math.min(width, height) * 0.03)
-      );
-      const fontDefault = Math.max(
-        16,
-        Math.round(Math.min(width, height) * 0.05)
-      );
-      const fontSize =
-        opts?.fontSize && opts.fontSize > 0
-          ? Math.round(opts.fontSize)
-          : fontDefault;
-      const color =
-        opts?.color && opts.color.trim()
-          ? opts.color.trim()
-          : "rgba(255,255,255,0.75)";
-      const angle = opts?.angle ?? 0;
-      let svg: Buffer;
-      if (
-        typeof opts?.xRatio === "number" &&
-        typeof opts?.yRatio === "number"
-      ) {
-        const xr = Math.max(0, Math.min(1, opts.xRatio));
-        const yr = Math.max(0, Math.min(1, opts.yRatio));
-        const x = Math.round(width * xr);
-        const y = Math.round(height * yr);
-        svg = buildWatermarkSvgAt(
-          width,
-          height,
-          safeText,
-          color,
-          fontSize,
-          x,
-          y,
-          angle
+  const jobs = runBatchJob({
+    jobId: job?.jobId,
+    kind: JobKindEnum.WATERMARK,
+    items: files,
+    getInputPath: (file) => file.path,
+    run: async (file, signal): Promise<WatermarkResult> => {
+      const inputPath = file.path;
+      let outputPath = "";
+      try {
+        if (file.type !== FileItemTypeEnum.IMAGE) {
+          return {
+            inputPath,
+            outputPath: "",
+            success: false,
+            error: "not an image",
+          };
+        }
+        const stat = await fs.stat(inputPath);
+        if (!stat.isFile()) {
+          return {
+            inputPath,
+            outputPath: "",
+            success: false,
+            error: "not a file",
+          };
+        }
+        const meta = await sharp(inputPath, { failOn: "none" }).metadata();
+        const width = meta.width ?? 0;
+        const height = meta.height ?? 0;
+        if (!width || !height) {
+          throw new Error("无法读取图片尺寸");
+        }
+        const paddingDefault = Math.max(
+          10,
+          Math.round(Math.min(width, height) * 0.03)
         );
-      } else {
-        const position = opts?.position ?? "bottom-right";
-        const pad =
-          opts?.padding && opts.padding > 0
-            ? Math.round(opts.padding)
-            : paddingDefault;
-        svg = buildWatermarkSvg(
-          width,
-          height,
-          safeText,
-          color,
-          fontSize,
-          position,
-          pad,
-          angle
+        const fontDefault = Math.max(
+          16,
+          Math.round(Math.min(width, height) * 0.05)
         );
-      }
-      const outputPath = await nextWatermarkOutputPath(targetDir, inputPath);
-      console.log(`准备添加水印: ${inputPath} -> ${outputPath}`);
+        const fontSize =
+          opts?.fontSize && opts.fontSize > 0
+            ? Math.round(opts.fontSize)
+            : fontDefault;
+        const color =
+          opts?.color && opts.color.trim()
+            ? opts.color.trim()
+            : "rgba(255,255,255,0.75)";
+        const angle = opts?.angle ?? 0;
+        let svg: Buffer;
+        if (
+          typeof opts?.xRatio === "number" &&
+          typeof opts?.yRatio === "number"
+        ) {
+          const xr = Math.max(0, Math.min(1, opts.xRatio));
+          const yr = Math.max(0, Math.min(1, opts.yRatio));
+          const x = Math.round(width * xr);
+          const y = Math.round(height * yr);
+          svg = buildWatermarkSvgAt(
+            width,
+            height,
+            safeText,
+            color,
+            fontSize,
+            x,
+            y,
+            angle
+          );
+        } else {
+          const position = opts?.position ?? "bottom-right";
+          const pad =
+            opts?.padding && opts.padding > 0
+              ? Math.round(opts.padding)
+              : paddingDefault;
+          svg = buildWatermarkSvg(
+            width,
+            height,
+            safeText,
+            color,
+            fontSize,
+            position,
+            pad,
+            angle
+          );
+        }
+        outputPath = await nextWatermarkOutputPath(targetDir, inputPath);
+        console.log(`准备添加水印: ${inputPath} -> ${outputPath}`);
 
-      // 确保输出文件的父目录存在
-      const outputParentDir = path.dirname(outputPath);
-      try {
-        await ensureDir(outputParentDir);
-        // 验证目录确实存在且可写
-        const parentStat = await fs.stat(outputParentDir);
-        if (!parentStat.isDirectory()) {
-          throw new Error(`输出目录不是有效的目录: ${outputParentDir}`);
+        // 确保输出文件的父目录存在
+        const outputParentDir = path.dirname(outputPath);
+        try {
+          await ensureDir(outputParentDir);
+          // 验证目录确实存在且可写
+          const parentStat = await fs.stat(outputParentDir);
+          if (!parentStat.isDirectory()) {
+            throw new Error(`输出目录不是有效的目录: ${outputParentDir}`);
+          }
+          console.log(`输出目录已验证: ${outputParentDir}`);
+        } catch (dirError) {
+          const dirErrorMsg =
+            dirError instanceof Error ? dirError.message : String(dirError);
+          const dirErrorCode =
+            dirError && typeof dirError === "object" && "code" in dirError
+              ? String((dirError as { code: unknown }).code)
+              : undefined;
+          console.error(`无法创建或验证输出目录: ${outputParentDir}`, {
+            error: dirErrorMsg,
+            code: dirErrorCode,
+          });
+          throw new Error(`无法创建输出目录: ${dirErrorMsg}`);
         }
-        console.log(`输出目录已验证: ${outputParentDir}`);
-      } catch (dirError) {
-        const dirErrorMsg =
-          dirError instanceof Error ? dirError.message : String(dirError);
-        const dirErrorCode =
-          dirError && typeof dirError === "object" && "code" in dirError
-            ? String((dirError as { code: unknown }).code)
+
+        signal.throwIfAborted();
+        await sharp(inputPath, { failOn: "none" })
+          .composite([{ input: svg }])
+          .toFile(outputPath);
+        console.log(`成功添加水印: ${inputPath} -> ${outputPath}`);
+        return { inputPath, outputPath, success: true };
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        const errorCode =
+          e && typeof e === "object" && "code" in e
+            ? String((e as { code: unknown }).code)
             : undefined;
-        console.error(`无法创建或验证输出目录: ${outputParentDir}`, {
-          error: dirErrorMsg,
-          code: dirErrorCode,
+        const errorStack = e instanceof Error ? e.stack : undefined;
+        console.error(`添加水印失败: ${inputPath}`, {
+          error: msg,
+          code: errorCode,
+          stack: errorStack,
         });
-        throw new Error(`无法创建输出目录: ${dirErrorMsg}`);
+        await removePartialOutput(outputPath);
+        return { inputPath, outputPath: "", success: false, error: msg };
       }
-
-      await sharp(inputPath, { failOn: "none" })
-        .composite([{ input: svg }])
-        .toFile(outputPath);
-      console.log(`成功添加水印: ${inputPath} -> ${outputPath}`);
-      return { inputPath, outputPath, success: true };
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      const errorCode =
-        e && typeof e === "object" && "code" in e
-          ? String((e as { code: unknown }).code)
-          : undefined;
-      const errorStack = e instanceof Error ? e.stack : undefined;
-      console.error(`添加水印失败: ${inputPath}`, {
-        error: msg,
-        code: errorCode,
-        stack: errorStack,
-      });
-      return { inputPath, outputPath: "", success: false, error: msg };
-    }
+    },
   });
-  const results = await Promise.all(jobs);
-  return { success: results.every((r) => r.success), results };
+  const results = await jobs;
+  return {
+    success: results.every((r) => r.success),
+    cancelled: isCancelled(results),
+    results,
+  };
 }
 
 /**
@@ -1276,3 +2613,130 @@ export async function cropImage(
     };
   }
 }
+
+// 图标包中 favicon.ico 包含的尺寸
+const ICON_PACK_ICO_SIZES = [16, 32, 48, 64, 256];
+
+// 图标包中的 PNG 图标：浏览器标签页、Apple touch 与 Android/PWA
+const ICON_PACK_PNGS = [
+  { name: "favicon-16x16.png", size: 16 },
+  { name: "favicon-32x32.png", size: 32 },
+  // iOS 会把透明区域显示为黑色，需要铺上背景色
+  { name: "apple-touch-icon.png", size: 180, opaque: true },
+  { name: "android-chrome-192x192.png", size: 192, manifest: true },
+  { name: "android-chrome-512x512.png", size: 512, manifest: true },
+];
+
+/**
+ * 从一张图片生成网站图标包（favicon 与应用图标）
+ * @param file 文件对象（仅图片类型有效），建议使用不小于 512x512 的方形图片
+ * @param outputDir 输出目录（不存在将自动创建）
+ * @param options 应用名称、主题色与背景色
+ * @returns 图标包文件夹、生成的文件名，以及 manifest 与 <link> 标签内容
+ *
+ * 行为说明：
+ * - 在输出目录中新建"原文件名_图标包"文件夹（重名时追加序号），全部文件写入其中
+ * - favicon.ico 包含 16/32/48/64/256 五个尺寸，由 icoEncoder 打包
+ * - PNG 包含 16、32（浏览器标签页）、180（Apple touch）、192、512（Android/PWA）
+ * - 非方形图片等比缩放后居中，空白处透明；Apple touch 图标填充背景色
+ * - 同时写出 manifest.webmanifest 与 icon-links.html（放在 <head> 中的标签）
+ * - 生成失败时删除已写出的文件夹
+ */
+export async function generateIconPack(
+  file: FileItem,
+  outputDir: string,
+  options: IconPackOptions = {}
+): Promise<IconPackResult> {
+  const inputPath = file.path;
+  if (file.type !== FileItemTypeEnum.IMAGE) {
+    throw new Error("只能从图片生成图标包");
+  }
+  const stat = await fs.stat(inputPath);
+  if (!stat.isFile()) throw new Error("not a file");
+
+  const image = openImage(inputPath, path.extname(inputPath).toLowerCase());
+  const meta = await image.metadata();
+  if (!meta.width || !meta.height) throw new Error("无法读取图片尺寸");
+
+  const baseName = path.basename(inputPath, path.extname(inputPath));
+  const appName = options.appName?.trim() || baseName;
+  const shortName = options.shortName?.trim() || appName;
+  const themeColor = options.themeColor ?? "#ffffff";
+  const backgroundColor = options.backgroundColor ?? "#ffffff";
+
+  const targetDir = await resolveOutputDir(outputDir);
+  const packDir = await nextIconPackDir(targetDir, inputPath);
+  await ensureDir(packDir);
+  console.log(`准备生成图标包: ${inputPath} -> ${packDir}`);
+
+  const manifest = JSON.stringify(
+    {
+      name: appName,
+      short_name: shortName,
+      icons: ICON_PACK_PNGS.filter((icon) => icon.manifest).map((icon) => ({
+        src: `/${icon.name}`,
+        sizes: `${icon.size}x${icon.size}`,
+        type: "image/png",
+      })),
+      theme_color: themeColor,
+      background_color: backgroundColor,
+      display: "standalone",
+    },
+    null,
+    2
+  );
+  const html = [
+    `<link rel="icon" href="/favicon.ico" sizes="any">`,
+    `<link rel="icon" type="image/png" sizes="32x32" href="/favicon-32x32.png">`,
+    `<link rel="icon" type="image/png" sizes="16x16" href="/favicon-16x16.png">`,
+    `<link rel="apple-touch-icon" sizes="180x180" href="/apple-touch-icon.png">`,
+    `<link rel="manifest" href="/manifest.webmanifest">`,
+    `<meta name="theme-color" content="${escapeXml(themeColor)}">`,
+  ].join("\n");
+
+  try {
+    await fs.writeFile(
+      path.join(packDir, "favicon.ico"),
+      await encodeIcoFromImage(image, ICON_PACK_ICO_SIZES)
+    );
+    for (const icon of ICON_PACK_PNGS) {
+      // sharp 先 flatten 再缩放，留白处需直接用背景色填充
+      const resized = image.clone().resize(icon.size, icon.size, {
+        fit: "contain",
+        background: icon.opaque
+          ? backgroundColor
+          : { r: 0, g: 0, b: 0, alpha: 0 },
+      });
+      await (icon.opaque
+        ? resized.flatten({ background: backgroundColor })
+        : resized
+      )
+        .png()
+        .toFile(path.join(packDir, icon.name));
+    }
+    await fs.writeFile(
+      path.join(packDir, "manifest.webmanifest"),
+      `${manifest}\n`
+    );
+    await fs.writeFile(path.join(packDir, "icon-links.html"), `${html}\n`);
+  } catch (e) {
+    await fs.rm(packDir, { recursive: true, force: true }).catch(() => {});
+    throw e;
+  }
+
+  console.log(`成功生成图标包: ${inputPath} -> ${packDir}`);
+  return {
+    outputDir: packDir,
+    files: [
+      "favicon.ico",
+      ...ICON_PACK_PNGS.map((icon) => icon.name),
+      "manifest.webmanifest",
+      "icon-links.html",
+    ],
+    manifest,
+    html,
+    upscaled:
+      Math.min(meta.width, meta.height) <
+      Math.max(...ICON_PACK_PNGS.map((icon) => icon.size)),
+  };
+}
@@ -0,0 +1,94 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { readIccDescription } from "./iccProfile";
+
+// 构造只含一个标签的 ICC 配置文件：128 字节文件头 + 标签表 + 标签数据
+function buildIcc(signature: string, tag: Buffer) {
+  const header = Buffer.alloc(128);
+  const table = Buffer.alloc(4 + 12);
+  const offset = header.length + table.length;
+  table.writeUInt32BE(1, 0);
+  table.write(signature, 4, "ascii");
+  table.writeUInt32BE(offset, 8);
+  table.writeUInt32BE(tag.length, 12);
+  return Buffer.concat([header, table, tag]);
+}
+
+// ICC v2 的 desc 类型：ASCII 字符串，长度包含结尾的 \0
+function descTag(text: string) {
+  const tag = Buffer.alloc(12 + text.length + 1 + 67);
+  tag.write("desc", 0, "ascii");
+  tag.writeUInt32BE(text.length + 1, 8);
+  tag.write(text, 12, "latin1");
+  return tag;
+}
+
+// ICC v4 的 mluc 类型：一条 UTF-16BE 记录
+function mlucTag(text: string) {
+  const body = Buffer.from(text, "utf16le").swap16();
+  const tag = Buffer.alloc(28 + body.length);
+  tag.write("mluc", 0, "ascii");
+  tag.writeUInt32BE(1, 8); // 记录数
+  tag.writeUInt32BE(12, 12); // 记录长度
+  tag.write("enUS", 16, "ascii");
+  tag.writeUInt32BE(body.length, 20);
+  tag.writeUInt32BE(28, 24);
+  body.copy(tag, 28);
+  return tag;
+}
+
+describe("readIccDescription", () => {
+  it("读取 v2 desc 标签", () => {
+    expect(
+      readIccDescription(buildIcc("desc", descTag("sRGB IEC61966-2.1")))
+    ).toBe("sRGB IEC61966-2.1");
+  });
+
+  it("读取 v4 mluc 标签，且不改动传入的 Buffer", () => {
+    const icc = buildIcc("desc", mlucTag("Display P3"));
+    const copy = Buffer.from(icc);
+    expect(readIccDescription(icc)).toBe("Display P3");
+    expect(icc.equals(copy)).toBe(true);
+  });
+
+  it("读取 sharp 嵌入的 sRGB 配置文件", async () => {
+    const { data } = await sharp({
+      create: { width: 1, height: 1, channels: 3, background: "#fff" },
+    })
+      .withIccProfile("srgb")
+      .png()
+      .toBuffer({ resolveWithObject: true });
+    const { icc } = await sharp(data).metadata();
+    expect(readIccDescription(icc!)).toMatch(/sRGB/i);
+  });
+
+  it("没有 desc 标签时返回 undefined", () => {
+    expect(readIccDescription(buildIcc("cprt", descTag("x")))).toBeUndefined();
+  });
+
+  it("截断的数据返回 undefined 而不是抛出异常", () => {
+    for (const icc of [
+      buildIcc("desc", descTag("sRGB")),
+      buildIcc("desc", mlucTag("Display P3")),
+    ]) {
+      for (let length = 0; length < icc.length; length++) {
+        expect(readIccDescription(icc.subarray(0, length))).toBeUndefined();
+      }
+    }
+  });
+
+  it("随机数据不会抛出异常", () => {
+    let seed = 1;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) % 256;
+    for (let i = 0; i < 200; i++) {
+      const icc = Buffer.from(Array.from({ length: 256 }, random));
+      expect(() => readIccDescription(icc)).not.toThrow();
+    }
+  });
+
+  it("标签数量远大于实际数据时返回 undefined", () => {
+    const icc = Buffer.alloc(200);
+    icc.writeUInt32BE(0xffffffff, 128);
+    expect(readIccDescription(icc)).toBeUndefined();
+  });
+});
@@ -0,0 +1,43 @@
+const HEADER_SIZE = 128; // ICC 文件头长度，其后是标签表
+const TAG_ENTRY_SIZE = 12;
+
+/**
+ * 读取 ICC 配置文件的名称（profileDescriptionTag）
+ * @param icc ICC 配置文件内容（sharp metadata 的 icc 字段）
+ * @returns 配置文件名称，如 "Display P3"；无法解析时返回 undefined
+ *
+ * 支持 ICC v2 的 desc 类型（ASCII）与 v4 的 mluc 类型（UTF-16BE，取第一条记录）
+ */
+export function readIccDescription(icc: Buffer): string | undefined {
+  if (icc.length < HEADER_SIZE + 4) return undefined;
+  const count = icc.readUInt32BE(HEADER_SIZE);
+  for (let i = 0; i < count; i++) {
+    const entry = HEADER_SIZE + 4 + i * TAG_ENTRY_SIZE;
+    if (entry + TAG_ENTRY_SIZE > icc.length) return undefined;
+    if (icc.toString("ascii", entry, entry + 4) !== "desc") continue;
+    const offset = icc.readUInt32BE(entry + 4);
+    const size = icc.readUInt32BE(entry + 8);
+    if (offset + size > icc.length || size < 12) return undefined;
+    const tag = icc.subarray(offset, offset + size);
+    const type = tag.toString("ascii", 0, 4);
+    if (type === "desc") {
+      const length = tag.readUInt32BE(8);
+      return clean(tag.toString("latin1", 12, Math.min(12 + length, size)));
+    }
+    if (type === "mluc" && size >= 28) {
+      const length = tag.readUInt32BE(20);
+      const start = tag.readUInt32BE(24);
+      if (start + length > size) return undefined;
+      // 复制后再交换字节序，避免改动调用方的 Buffer
+      const text = Buffer.from(tag.subarray(start, start + length));
+      return clean(text.swap16().toString("utf16le"));
+    }
+    return undefined;
+  }
+  return undefined;
+}
+
+// 去掉结尾的 \0 与首尾空白
+function clean(text: string) {
+  return text.replace(/\0+$/, "").trim() || undefined;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { encodeIco } from "./icoEncoder";
+
+describe("encodeIco", () => {
+  const images = [
+    { size: 16, png: Buffer.from([1, 2, 3]) },
+    { size: 48, png: Buffer.from([4, 5, 6, 7, 8]) },
+    { size: 256, png: Buffer.from([9]) },
+  ];
+  const ico = encodeIco(images);
+  const entry = (i: number) => 6 + i * 16;
+
+  it("写入 ICONDIR：保留字段 0、类型 1、条目数", () => {
+    expect(ico.readUInt16LE(0)).toBe(0);
+    expect(ico.readUInt16LE(2)).toBe(1);
+    expect(ico.readUInt16LE(4)).toBe(3);
+  });
+
+  it("写入 ICONDIRENTRY：宽高、调色板、平面数、位数与数据大小", () => {
+    images.forEach(({ size, png }, i) => {
+      const p = entry(i);
+      expect(ico[p]).toBe(size % 256);
+      expect(ico[p + 1]).toBe(size % 256);
+      expect(ico[p + 2]).toBe(0);
+      expect(ico[p + 3]).toBe(0);
+      expect(ico.readUInt16LE(p + 4)).toBe(1);
+      expect(ico.readUInt16LE(p + 6)).toBe(32);
+      expect(ico.readUInt32LE(p + 8)).toBe(png.length);
+    });
+  });
+
+  it("256 像素的宽高记为 0", () => {
+    const p = entry(2);
+    expect(ico[p]).toBe(0);
+    expect(ico[p + 1]).toBe(0);
+  });
+
+  it("数据偏移依次排在目录之后，并指向对应的 PNG 数据", () => {
+    const offsets = images.map((_, i) => ico.readUInt32LE(entry(i) + 12));
+    expect(offsets).toEqual([6 + 16 * 3, 6 + 16 * 3 + 3, 6 + 16 * 3 + 8]);
+    images.forEach(({ png }, i) => {
+      expect(ico.subarray(offsets[i], offsets[i] + png.length)).toEqual(png);
+    });
+    expect(ico.length).toBe(6 + 16 * 3 + 9);
+  });
+
+  it("拒绝空列表与超出范围的尺寸", () => {
+    expect(() => encodeIco([])).toThrow();
+    for (const size of [0, 257, 1.5]) {
+      expect(() => encodeIco([{ size, png: Buffer.alloc(1) }])).toThrow(
+        "1-256"
+      );
+    }
+  });
+});
@@ -0,0 +1,43 @@
+const HEADER_SIZE = 6; // ICONDIR
+const ENTRY_SIZE = 16; // ICONDIRENTRY
+const MAX_SIZE = 256;
+
+export type IcoImage = {
+  size: number; // 图标边长（1-256）
+  png: Buffer; // 该尺寸的 PNG 编码（32 位含透明度）
+};
+
+/**
+ * 将多张方形 PNG 打包为 ICO 文件
+ * @param images 各尺寸的图标，按传入顺序写入
+ * @returns ICO 文件内容
+ *
+ * 行为说明：
+ * - 每个条目直接内嵌 PNG 数据（Windows Vista 及以后、主流浏览器均支持）
+ * - 目录中 256 像素的宽高按 ICO 约定记为 0
+ */
+export function encodeIco(images: IcoImage[]): Buffer {
+  if (images.length === 0) throw new Error("至少需要一个图标尺寸");
+  const header = Buffer.alloc(HEADER_SIZE + ENTRY_SIZE * images.length);
+  header.writeUInt16LE(0, 0); // 保留
+  header.writeUInt16LE(1, 2); // 1 表示图标
+  header.writeUInt16LE(images.length, 4);
+
+  let offset = header.length;
+  images.forEach(({ size, png }, i) => {
+    if (!Number.isInteger(size) || size < 1 || size > MAX_SIZE) {
+      throw new Error(`图标尺寸必须为 1-${MAX_SIZE} 的整数: ${size}`);
+    }
+    const p = HEADER_SIZE + i * ENTRY_SIZE;
+    header[p] = size % MAX_SIZE; // 宽度
+    header[p + 1] = size % MAX_SIZE; // 高度
+    header[p + 2] = 0; // 调色板颜色数（0 表示不使用调色板）
+    header[p + 3] = 0; // 保留
+    header.writeUInt16LE(1, p + 4); // 平面数
+    header.writeUInt16LE(32, p + 6); // 每像素位数
+    header.writeUInt32LE(png.length, p + 8);
+    header.writeUInt32LE(offset, p + 12);
+    offset += png.length;
+  });
+  return Buffer.concat([header, ...images.map((image) => image.png)]);
+}
@@ -0,0 +1,108 @@
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { IpcErrorCodeEnum, type IpcResponse } from "@/types";
+import { deleteFile, renameFile } from "./handleFile";
+import { registerIpcHandlers } from "./ipc";
+
+type Listener = (event: unknown, ...args: unknown[]) => Promise<unknown>;
+
+// 记录注册到 ipcMain 的处理函数，测试中直接调用
+const { listeners } = vi.hoisted(() => ({
+  listeners: new Map<string, Listener>(),
+}));
+
+vi.mock("electron", () => ({
+  ipcMain: {
+    handle: (channel: string, listener: Listener) => {
+      listeners.set(channel, listener);
+    },
+  },
+  BrowserWindow: { getAllWindows: () => [] },
+}));
+
+vi.mock("./handleFile", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./handleFile")>()),
+  renameFile: vi.fn(async () => true),
+  deleteFile: vi.fn(async () => true),
+}));
+
+// 模拟渲染进程调用
+function invoke(channel: string, ...args: unknown[]) {
+  const listener = listeners.get(channel);
+  if (!listener) throw new Error(`未注册的通道: ${channel}`);
+  return listener({}, ...args) as Promise<IpcResponse<unknown>>;
+}
+
+const file = path.join(os.homedir(), "picture", "a.png");
+
+describe("handle", () => {
+  beforeAll(() => {
+    registerIpcHandlers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it("参数合法时调用处理函数并返回结果", async () => {
+    expect(await invoke("renameFile", file, "b.png")).toEqual({
+      ok: true,
+      data: true,
+    });
+    expect(renameFile).toHaveBeenCalledWith(file, "b.png");
+  });
+
+  it("多余的参数返回 INVALID_ARGUMENT，不调用处理函数", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const res = await invoke("renameFile", file, "b.png", "extra");
+    expect(res).toMatchObject({
+      ok: false,
+      error: { code: IpcErrorCodeEnum.INVALID_ARGUMENT, path: "args" },
+    });
+    expect(renameFile).not.toHaveBeenCalled();
+  });
+
+  it("相对路径返回 INVALID_ARGUMENT，错误路径指向该参数", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const res = await invoke("renameFile", "picture/a.png", "b.png");
+    expect(res).toMatchObject({
+      ok: false,
+      error: { code: IpcErrorCodeEnum.INVALID_ARGUMENT, path: "args[0]" },
+    });
+    expect(renameFile).not.toHaveBeenCalled();
+  });
+
+  it.each(["../b.png", "dir\\b.png", "b\0.png"])(
+    "新文件名 %j 返回 INVALID_ARGUMENT",
+    async (name) => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const res = await invoke("renameFile", file, name);
+      expect(res).toMatchObject({
+        ok: false,
+        error: { code: IpcErrorCodeEnum.INVALID_ARGUMENT, path: "args[1]" },
+      });
+      expect(renameFile).not.toHaveBeenCalled();
+    }
+  );
+
+  it("删除用户主目录返回 INVALID_ARGUMENT，错误路径指向数组项", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const res = await invoke("deleteFile", [file, os.homedir()]);
+    expect(res).toMatchObject({
+      ok: false,
+      error: { code: IpcErrorCodeEnum.INVALID_ARGUMENT, path: "args[0][1]" },
+    });
+    expect(deleteFile).not.toHaveBeenCalled();
+  });
+
+  it("处理函数抛出异常时返回 INTERNAL", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(renameFile).mockRejectedValueOnce(new Error("磁盘已满"));
+    expect(await invoke("renameFile", file, "b.png")).toEqual({
+      ok: false,
+      error: { code: IpcErrorCodeEnum.INTERNAL, message: "磁盘已满" },
+    });
+  });
+});
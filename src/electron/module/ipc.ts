@@ -0,0 +1,444 @@
+import { BrowserWindow, ipcMain } from "electron";
+import {
+  ColorProfileEnum,
+  CompressFormatEnum,
+  CompressModeEnum,
+  FileItemTypeEnum,
+  IpcErrorCodeEnum,
+  NoGainActionEnum,
+  OrientationEnum,
+  ResizeKernelEnum,
+  SearchModeEnum,
+  SortKeyEnum,
+  type FileItem,
+  type IpcEventChannels,
+  type IpcInvokeChannels,
+  type IpcResponse,
+} from "@/types";
+import { CONVERT_FORMAT_LIST, RASTERIZE_FORMATS } from "@/utils/format";
+import {
+  WINDOWS_DRIVES_ROOT,
+  getDirectoryContents,
+  openDirectoryCursor,
+  readDirectoryCursor,
+  closeDirectoryCursor,
+  getBreadcrumbList,
+  getFileInfo,
+} from "./directory";
+import {
+  deleteFile,
+  renameFile,
+  compressFiles,
+  previewCompression,
+  cancelPreviewCompression,
+  convertFiles,
+  detectTransparentImages,
+  rasterizeSvgs,
+  addWatermarks,
+  cropImage,
+  generateIconPack,
+} from "./handleFile";
+import { watchDirectory, unwatchDirectory, watcherEvents } from "./watcher";
+import { searchDirectory, cancelSearch, searchEvents } from "./search";
+import { setJobConcurrency, cancelJob, jobEvents } from "./jobQueue";
+import { exportTextFile } from "./exportFile";
+import {
+  ValidationError,
+  absolutePath,
+  args,
+  array,
+  boolean,
+  mutablePath,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  type Schema,
+} from "./validation";
+
+type InvokeChannel = keyof IpcInvokeChannels;
+
+const MAX_BATCH_FILES = 10000; // 单次批量操作的最大文件数
+const MAX_EXPORT_LENGTH = 50 * 1024 * 1024; // 导出文本的最大长度
+
+// 通用参数
+const id = string({ minLength: 1, maxLength: 128 });
+const dirPath = optional<string>((value, p) =>
+  value === WINDOWS_DRIVES_ROOT ? value : absolutePath()(value, p)
+);
+const fileItem = object<FileItem>({
+  name: string({ minLength: 1, maxLength: 1024 }),
+  path: absolutePath(),
+  type: oneOf(Object.values(FileItemTypeEnum)),
+  thumbnailUrl: optional(string()),
+  originalUrl: optional(string()),
+  size: optional(number({ min: 0 })),
+  modifiedAt: optional(number({ min: 0 })),
+  width: optional(number({ min: 0 })),
+  height: optional(number({ min: 0 })),
+});
+const job = optional(object({ jobId: optional(id) }));
+const hexColor = string({ pattern: /^#[0-9a-fA-F]{6}$/ });
+const colorProfile = optional(oneOf(Object.values(ColorProfileEnum)));
+const chromaSubsampling = optional(oneOf(["4:2:0", "4:4:4"]));
+const tiffCompression = optional(
+  oneOf(["none", "jpeg", "deflate", "lzw", "packbits"])
+);
+const encoderSettings = optional(
+  object({
+    jpeg: optional(
+      object({ progressive: optional(boolean()), chromaSubsampling })
+    ),
+    png: optional(
+      object({
+        progressive: optional(boolean()),
+        palette: optional(boolean()),
+        colors: optional(number({ min: 2, max: 256, integer: true })),
+        dither: optional(number({ min: 0, max: 1 })),
+      })
+    ),
+    webp: optional(
+      object({
+        effort: optional(number({ min: 0, max: 6, integer: true })),
+        nearLossless: optional(boolean()),
+      })
+    ),
+    avif: optional(
+      object({
+        effort: optional(number({ min: 0, max: 9, integer: true })),
+        chromaSubsampling,
+      })
+    ),
+    tiff: optional(
+      object({
+        compression: tiffCompression,
+        predictor: optional(oneOf(["none", "horizontal", "float"])),
+      })
+    ),
+    gif: optional(
+      object({
+        colors: optional(number({ min: 2, max: 256, integer: true })),
+        dither: optional(number({ min: 0, max: 1 })),
+        effort: optional(number({ min: 1, max: 10, integer: true })),
+      })
+    ),
+    svg: optional(
+      object({
+        precision: optional(number({ min: 0, max: 8, integer: true })),
+      })
+    ),
+  })
+);
+const compressOptions = optional(
+  object({
+    mode: optional(oneOf(Object.values(CompressModeEnum))),
+    quality: optional(number({ min: 1, max: 100, integer: true })),
+    targetSize: optional(number({ min: 1, integer: true })),
+    targetSsim: optional(number({ min: 0.5, max: 1 })),
+    allowScale: optional(boolean()),
+    format: optional(oneOf(Object.values(CompressFormatEnum))),
+    noGainAction: optional(oneOf(Object.values(NoGainActionEnum))),
+    minSavingsPercent: optional(number({ min: 0, max: 90 })),
+    resize: optional(
+      object({
+        maxWidth: optional(number({ min: 1, max: 100000, integer: true })),
+        maxHeight: optional(number({ min: 1, max: 100000, integer: true })),
+        longEdge: optional(number({ min: 1, max: 100000, integer: true })),
+        percent: optional(number({ min: 1, max: 100 })),
+        kernel: optional(oneOf(Object.values(ResizeKernelEnum))),
+      })
+    ),
+    encoders: encoderSettings,
+    colorProfile,
+  })
+);
+const listOptions = optional(
+  object({
+    sort: optional(
+      object({
+        sortBy: oneOf(Object.values(SortKeyEnum)),
+        order: oneOf(["asc", "desc"]),
+      })
+    ),
+    filter: optional(
+      object({
+        extensions: optional(
+          array(string({ minLength: 1, maxLength: 16 }), { maxLength: 64 })
+        ),
+        minSize: optional(number({ min: 0 })),
+        maxSize: optional(number({ min: 0 })),
+        orientation: optional(oneOf(Object.values(OrientationEnum))),
+      })
+    ),
+  })
+);
+
+/**
+ * 注册 IPC 调用通道的处理函数（参数与返回值类型由 IpcInvokeChannels 约束）
+ * - 参数先经过 schema 校验，未通过时直接返回 INVALID_ARGUMENT 错误，不执行任何文件操作
+ * - 返回 IpcResponse，由 preload 解包：成功返回数据，失败以 IpcError 对象 reject
+ */
+function handle<K extends InvokeChannel>(
+  channel: K,
+  schema: Schema<Parameters<IpcInvokeChannels[K]>>,
+  handler: (
+    ...args: Parameters<IpcInvokeChannels[K]>
+  ) =>
+    | ReturnType<IpcInvokeChannels[K]>
+    | Awaited<ReturnType<IpcInvokeChannels[K]>>
+) {
+  ipcMain.handle(
+    channel,
+    async (
+      _event,
+      ...rawArgs: unknown[]
+    ): Promise<IpcResponse<Awaited<ReturnType<IpcInvokeChannels[K]>>>> => {
+      let parsed: Parameters<IpcInvokeChannels[K]>;
+      try {
+        parsed = schema(rawArgs, "args");
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        console.warn(`IPC 参数校验失败: ${channel}`, error.message);
+        return {
+          ok: false,
+          error: {
+            code: IpcErrorCodeEnum.INVALID_ARGUMENT,
+            message: error.message,
+            path: error.path,
+          },
+        };
+      }
+      try {
+        return { ok: true, data: await handler(...parsed) };
+      } catch (error) {
+        console.error(`IPC 调用失败: ${channel}`, error);
+        return {
+          ok: false,
+          error: {
+            code: IpcErrorCodeEnum.INTERNAL,
+            message: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+    }
+  );
+}
+
+/**
+ * 向所有窗口推送事件
+ */
+function broadcast<K extends keyof IpcEventChannels>(
+  channel: K,
+  payload: IpcEventChannels[K]
+) {
+  for (const win of BrowserWindow.getAllWindows()) {
+    if (!win.webContents.isDestroyed()) {
+      win.webContents.send(channel, payload);
+    }
+  }
+}
+
+/**
+ * 注册全部 IPC 通道（需在 app ready 后、创建窗口前调用）
+ * - 文件读写与 sharp 图片处理均在主进程执行，preload 只负责转发
+ * - 目录变化、搜索结果、任务进度通过事件通道推送到渲染进程
+ */
+export function registerIpcHandlers(): void {
+  handle("getDirectoryContents", args(dirPath), getDirectoryContents);
+  handle(
+    "openDirectoryCursor",
+    args(dirPath, listOptions),
+    openDirectoryCursor
+  );
+  handle(
+    "readDirectoryCursor",
+    args(id, optional(number({ min: 1, max: 1000, integer: true }))),
+    readDirectoryCursor
+  );
+  handle("closeDirectoryCursor", args(id), closeDirectoryCursor);
+  handle("watchDirectory", args(dirPath, listOptions), watchDirectory);
+  handle("unwatchDirectory", args(id), unwatchDirectory);
+  handle(
+    "searchDirectory",
+    args(
+      id,
+      dirPath,
+      object({
+        query: string({ minLength: 1, maxLength: 256 }),
+        mode: oneOf(Object.values(SearchModeEnum)),
+        maxDepth: optional(number({ min: 0, max: 64, integer: true })),
+        includeHidden: optional(boolean()),
+        caseSensitive: optional(boolean()),
+        maxResults: optional(number({ min: 1, max: 100000, integer: true })),
+      })
+    ),
+    searchDirectory
+  );
+  handle("cancelSearch", args(id), cancelSearch);
+  handle("getBreadcrumbList", args(dirPath), getBreadcrumbList);
+  handle(
+    "deleteFile",
+    args(array(mutablePath(), { maxLength: MAX_BATCH_FILES })),
+    deleteFile
+  );
+  handle(
+    "renameFile",
+    args(
+      mutablePath(),
+      string({ minLength: 1, maxLength: 255, pattern: /^[^/\\\0]+$/ })
+    ),
+    renameFile
+  );
+  handle(
+    "compressFiles",
+    args(
+      array(absolutePath(), { maxLength: MAX_BATCH_FILES }),
+      absolutePath(),
+      compressOptions,
+      job
+    ),
+    compressFiles
+  );
+  handle(
+    "previewCompression",
+    args(absolutePath(), compressOptions, optional(id)),
+    previewCompression
+  );
+  handle("cancelPreviewCompression", args(id), cancelPreviewCompression);
+  handle(
+    "convertFiles",
+    args(
+      array(
+        object({
+          file: fileItem,
+          targetFormat: oneOf(CONVERT_FORMAT_LIST),
+          options: optional(
+            object({
+              quality: optional(number({ min: 1, max: 100, integer: true })),
+              lossless: optional(boolean()),
+              effort: optional(number({ min: 0, max: 10, integer: true })),
+              colors: optional(number({ min: 2, max: 256, integer: true })),
+              compression: tiffCompression,
+              sizes: optional(
+                array(number({ min: 1, max: 256, integer: true }), {
+                  minLength: 1,
+                  maxLength: 16,
+                })
+              ),
+            })
+          ),
+          background: optional(hexColor),
+          colorProfile,
+        }),
+        { maxLength: MAX_BATCH_FILES }
+      ),
+      absolutePath(),
+      job
+    ),
+    convertFiles
+  );
+  handle(
+    "detectTransparentImages",
+    args(array(absolutePath(), { maxLength: MAX_BATCH_FILES })),
+    detectTransparentImages
+  );
+  handle(
+    "rasterizeSvgs",
+    args(
+      array(absolutePath(), { maxLength: MAX_BATCH_FILES }),
+      absolutePath(),
+      object({
+        format: oneOf(RASTERIZE_FORMATS),
+        width: optional(number({ min: 1, max: 16384, integer: true })),
+        height: optional(number({ min: 1, max: 16384, integer: true })),
+        density: optional(number({ min: 1, max: 2400 })),
+        scales: optional(
+          array(number({ min: 0.25, max: 8 }), { minLength: 1, maxLength: 8 })
+        ),
+        background: optional(hexColor),
+        quality: optional(number({ min: 1, max: 100, integer: true })),
+      }),
+      job
+    ),
+    rasterizeSvgs
+  );
+  handle(
+    "addWatermarks",
+    args(
+      array(fileItem, { maxLength: MAX_BATCH_FILES }),
+      string({ minLength: 1, maxLength: 10 }),
+      absolutePath(),
+      optional(
+        object({
+          fontSize: optional(number({ min: 1, max: 1000 })),
+          color: optional(string({ maxLength: 64 })),
+          position: optional(
+            oneOf([
+              "top-left",
+              "top-right",
+              "bottom-left",
+              "bottom-right",
+              "center",
+            ])
+          ),
+          padding: optional(number({ min: 0, max: 10000 })),
+          angle: optional(number({ min: -360, max: 360 })),
+          xRatio: optional(number({ min: 0, max: 1 })),
+          yRatio: optional(number({ min: 0, max: 1 })),
+        })
+      ),
+      job
+    ),
+    addWatermarks
+  );
+  handle(
+    "setJobConcurrency",
+    args(number({ min: 1, max: 16, integer: true })),
+    setJobConcurrency
+  );
+  handle("cancelJob", args(id), cancelJob);
+  handle(
+    "cropImage",
+    args(
+      fileItem,
+      absolutePath(),
+      object({
+        left: number({ min: 0, integer: true }),
+        top: number({ min: 0, integer: true }),
+        width: number({ min: 1, integer: true }),
+        height: number({ min: 1, integer: true }),
+      })
+    ),
+    cropImage
+  );
+  handle(
+    "generateIconPack",
+    args(
+      fileItem,
+      absolutePath(),
+      optional(
+        object({
+          appName: optional(string({ maxLength: 128 })),
+          shortName: optional(string({ maxLength: 64 })),
+          themeColor: optional(hexColor),
+          backgroundColor: optional(hexColor),
+        })
+      )
+    ),
+    generateIconPack
+  );
+  handle("getFileInfo", args(absolutePath()), getFileInfo);
+  handle(
+    "exportTextFile",
+    args(
+      string({ minLength: 1, maxLength: 255, pattern: /^[^/\\\0]+$/ }),
+      string({ maxLength: MAX_EXPORT_LENGTH })
+    ),
+    exportTextFile
+  );
+
+  watcherEvents.on("change", (change) => broadcast("directoryChange", change));
+  searchEvents.on("event", (event) => broadcast("searchEvent", event));
+  jobEvents.on("progress", (event) => broadcast("jobProgress", event));
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { JobFileStatusEnum, JobKindEnum, type JobProgressEvent } from "@/types";
+import { cancelJob, jobEvents, runBatchJob } from "./jobQueue";
+
+describe("runBatchJob", () => {
+  afterEach(() => {
+    jobEvents.removeAllListeners();
+    vi.restoreAllMocks();
+  });
+
+  it("按输入顺序返回结果，run 抛出异常时记为失败", async () => {
+    const results = await runBatchJob({
+      kind: JobKindEnum.COMPRESS,
+      items: ["/a", "/b"],
+      getInputPath: (item) => item,
+      run: async (item) => {
+        if (item === "/b") throw new Error("损坏的文件");
+        return { inputPath: item, outputPath: "", success: true };
+      },
+    });
+    expect(results.map((r) => r.success)).toEqual([true, false]);
+    expect(results[1].error).toBe("损坏的文件");
+  });
+
+  it("推送进度出错时标记为失败，任务仍然结束", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const events: JobProgressEvent[] = [];
+    jobEvents.on("progress", (event: JobProgressEvent) => {
+      events.push(event);
+      if (
+        event.type === "file" &&
+        event.file.status === JobFileStatusEnum.RUNNING
+      ) {
+        throw new Error("监听函数出错");
+      }
+    });
+    const run = vi.fn();
+    const results = await runBatchJob({
+      kind: JobKindEnum.COMPRESS,
+      items: ["/a"],
+      getInputPath: (item) => item,
+      run,
+    });
+    expect(run).not.toHaveBeenCalled();
+    expect(results[0]).toMatchObject({ success: false, error: "监听函数出错" });
+    expect(events.at(-1)).toMatchObject({ type: "done", failed: 1 });
+  });
+
+  it("处理过程中被取消时删除全部输出文件", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "job-queue-"));
+    const outputPaths = ["a.png", "a@2x.png", "a@3x.png"].map((name) =>
+      path.join(dir, name)
+    );
+    try {
+      const results = await runBatchJob({
+        jobId: "cancel-multi-output",
+        kind: JobKindEnum.COMPRESS,
+        items: ["/a.svg"],
+        getInputPath: (item) => item,
+        run: async (item) => {
+          for (const outputPath of outputPaths) {
+            await fs.writeFile(outputPath, "x");
+          }
+          // 编码完成后才收到取消
+          cancelJob("cancel-multi-output");
+          return {
+            inputPath: item,
+            outputPath: outputPaths[0],
+            outputPaths,
+            success: true,
+          };
+        },
+      });
+      expect(results[0].status).toBe(JobFileStatusEnum.CANCELLED);
+      expect(await fs.readdir(dir)).toEqual([]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("取消后尚未开始的文件不再处理", async () => {
+    const run = vi.fn(async (item: string) => {
+      cancelJob("cancel-pending");
+      return { inputPath: item, outputPath: "", success: true };
+    });
+    const results = await runBatchJob({
+      jobId: "cancel-pending",
+      kind: JobKindEnum.COMPRESS,
+      items: Array.from({ length: 20 }, (_, i) => `/${i}`),
+      getInputPath: (item) => item,
+      run,
+    });
+    expect(run.mock.calls.length).toBeLessThan(20);
+    expect(results.every((r) => r.status === JobFileStatusEnum.CANCELLED)).toBe(
+      true
+    );
+  });
+});
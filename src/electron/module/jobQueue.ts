@@ -0,0 +1,268 @@
+import { promises as fs } from "fs";
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import * as os from "os";
+import {
+  JobFileStatusEnum,
+  type BatchFileResult,
+  type JobKindEnum,
+  type JobProgressEvent,
+} from "@/types";
+
+const MAX_CONCURRENCY = 16; // 并发数上限
+
+/**
+ * 批量任务进度事件（"progress"，参数为 JobProgressEvent）
+ */
+export const jobEvents = new EventEmitter();
+
+/**
+ * 单个文件的处理结果（压缩、转换、加水印的结果均满足该结构）
+ */
+export type JobResult = {
+  inputPath: string;
+  outputPath: string;
+  outputPaths?: string[]; // 写出多个文件时的全部输出路径（含 outputPath）
+  success: boolean;
+  detail?: string; // 结果说明，展示在任务面板中
+  error?: string;
+};
+
+/**
+ * 批量任务中单个文件的最终结果：
+ * 处理完成时为 run 返回的结果附带状态；抛出异常或被取消时只有通用字段
+ */
+export type JobFileResult<R extends JobResult> =
+  | (R & BatchFileResult)
+  | BatchFileResult;
+
+// 队列中的单个文件任务
+type QueueTask = {
+  jobId: string;
+  run: () => Promise<void>;
+  cancel: () => void; // 尚未开始时取消
+  fail: (error: unknown) => void; // 处理过程中意外出错时标记为失败
+};
+
+// 默认并发数：sharp 内部已多线程，过高的并发只会占用更多内存
+let concurrency = Math.max(1, Math.min(4, os.cpus().length));
+let active = 0;
+const pending: QueueTask[] = [];
+// 进行中的任务（任务 ID -> 取消控制器）
+const controllers = new Map<string, AbortController>();
+
+/**
+ * 设置队列并发数（所有批量任务共用同一队列）
+ * @param value 同时处理的文件数量（1-16）
+ */
+export function setJobConcurrency(value: number): void {
+  if (!Number.isFinite(value)) return;
+  concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value)));
+  pump();
+}
+
+// 在并发数允许的范围内启动排队的任务
+function pump() {
+  while (active < concurrency && pending.length) {
+    const task = pending.shift()!;
+    active++;
+    task
+      .run()
+      .catch((error) => {
+        console.error(`批量任务出错: ${task.jobId}`, error);
+        task.fail(error);
+      })
+      .finally(() => {
+        active--;
+        pump();
+      });
+  }
+}
+
+/**
+ * 取消批量任务
+ * @param jobId 任务 ID
+ * @returns 任务是否存在且尚未结束
+ *
+ * 行为说明：
+ * - 排队中的文件立即标记为已取消，不再处理
+ * - 正在处理的文件会收到中止信号，在下一个检查点停止；无法中途停止的编码完成后丢弃输出文件
+ */
+export function cancelJob(jobId: string): boolean {
+  const controller = controllers.get(jobId);
+  if (!controller) return false;
+  controller.abort();
+  for (let i = pending.length - 1; i >= 0; i--) {
+    if (pending[i].jobId === jobId) {
+      pending.splice(i, 1)[0].cancel();
+    }
+  }
+  return true;
+}
+
+function emit(event: JobProgressEvent) {
+  jobEvents.emit("progress", event);
+}
+
+async function fileSize(filePath: string): Promise<number | undefined> {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch {
+    return undefined;
+  }
+}
+
+// 删除被取消文件已写出的（可能不完整的）全部输出
+async function removeOutputs(result: JobResult) {
+  const outputPaths = result.outputPaths ?? [result.outputPath];
+  for (const outputPath of outputPaths) {
+    if (!outputPath) continue;
+    try {
+      await fs.rm(outputPath, { force: true });
+    } catch (error) {
+      console.error(`删除输出文件失败: ${outputPath}`, error);
+    }
+  }
+}
+
+/**
+ * 将一批文件加入共享队列处理，并推送每个文件的进度
+ * @param options.jobId 任务 ID，不传则自动生成
+ * @param options.kind 任务类型
+ * @param options.items 待处理的条目
+ * @param options.getInputPath 获取条目对应的输入文件路径
+ * @param options.run 处理单个条目，需返回结果而不是抛出异常；signal 中止时应尽快停止
+ * @returns 与 items 顺序一致的结果数组（附带最终状态）
+ *
+ * 行为说明：
+ * - 开始时推送 "start" 事件，所有文件处于排队状态
+ * - 每个文件开始处理、完成、失败或取消时推送 "file" 事件（包含输入/输出文件大小）
+ * - 全部文件处理结束（或取消）后推送 "done" 事件
+ * - 通过 cancelJob 取消，被取消文件的输出会被删除（返回 outputPaths 时删除其中的全部文件）
+ */
+export async function runBatchJob<T, R extends JobResult>(options: {
+  jobId?: string;
+  kind: JobKindEnum;
+  items: T[];
+  getInputPath: (item: T) => string;
+  run: (item: T, signal: AbortSignal) => Promise<R>;
+}): Promise<JobFileResult<R>[]> {
+  const { kind, items, getInputPath, run } = options;
+  const jobId = options.jobId ?? randomUUID();
+  const controller = new AbortController();
+  const { signal } = controller;
+  controllers.set(jobId, controller);
+  const inputPaths = items.map(getInputPath);
+  emit({ jobId, type: "start", kind, files: inputPaths });
+
+  const tasks = items.map(
+    (item, index) =>
+      new Promise<JobFileResult<R>>((resolve) => {
+        const inputPath = inputPaths[index];
+        const resolveCancelled = (bytesIn?: number) => {
+          emit({
+            jobId,
+            type: "file",
+            index,
+            file: { inputPath, status: JobFileStatusEnum.CANCELLED, bytesIn },
+          });
+          resolve({
+            inputPath,
+            outputPath: "",
+            success: false,
+            status: JobFileStatusEnum.CANCELLED,
+            error: "cancelled",
+          });
+        };
+        pending.push({
+          jobId,
+          cancel: () => resolveCancelled(),
+          fail: (e) => {
+            const error = e instanceof Error ? e.message : String(e);
+            try {
+              emit({
+                jobId,
+                type: "file",
+                index,
+                file: { inputPath, status: JobFileStatusEnum.FAILED, error },
+              });
+            } catch {
+              // 推送进度本身出错时只记录结果
+            }
+            resolve({
+              inputPath,
+              outputPath: "",
+              success: false,
+              status: JobFileStatusEnum.FAILED,
+              error,
+            });
+          },
+          run: async () => {
+            if (signal.aborted) {
+              resolveCancelled();
+              return;
+            }
+            const bytesIn = await fileSize(inputPath);
+            emit({
+              jobId,
+              type: "file",
+              index,
+              file: { inputPath, status: JobFileStatusEnum.RUNNING, bytesIn },
+            });
+            let result: R | JobResult;
+            try {
+              result = await run(item, signal);
+            } catch (e) {
+              const error = e instanceof Error ? e.message : String(e);
+              result = {
+                inputPath,
+                outputPath: "",
+                success: false,
+                error,
+              };
+            }
+            // 处理过程中被取消：丢弃已写出的输出
+            if (signal.aborted) {
+              await removeOutputs(result);
+              resolveCancelled(bytesIn);
+              return;
+            }
+            const status = result.success
+              ? JobFileStatusEnum.DONE
+              : JobFileStatusEnum.FAILED;
+            emit({
+              jobId,
+              type: "file",
+              index,
+              file: {
+                inputPath,
+                status,
+                outputPath: result.outputPath || undefined,
+                bytesIn,
+                bytesOut: result.success
+                  ? await fileSize(result.outputPath)
+                  : undefined,
+                detail: result.detail,
+                error: result.error,
+              },
+            });
+            resolve({ ...result, status });
+          },
+        });
+      })
+  );
+  // 所有文件都已入队，开始处理
+  pump();
+  const results = await Promise.all(tasks);
+  controllers.delete(jobId);
+  const count = (status: JobFileStatusEnum) =>
+    results.filter((r) => r.status === status).length;
+  emit({
+    jobId,
+    type: "done",
+    succeeded: count(JobFileStatusEnum.DONE),
+    failed: count(JobFileStatusEnum.FAILED),
+    cancelled: count(JobFileStatusEnum.CANCELLED),
+  });
+  return results;
+}
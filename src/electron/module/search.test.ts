@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { globToRegExp } from "./search";
+
+// 判断文件名是否匹配通配符（默认不区分大小写）
+function matches(glob: string, name: string, caseSensitive = false) {
+  return globToRegExp(glob, caseSensitive).test(name);
+}
+
+describe("globToRegExp", () => {
+  it("* 匹配任意数量的字符（包括空）", () => {
+    expect(matches("*.png", "a.png")).toBe(true);
+    expect(matches("*.png", ".png")).toBe(true);
+    expect(matches("a*b", "a-x-b")).toBe(true);
+    expect(matches("*.png", "a.png.bak")).toBe(false);
+  });
+
+  it("? 只匹配一个字符", () => {
+    expect(matches("img?.jpg", "img1.jpg")).toBe(true);
+    expect(matches("img?.jpg", "img.jpg")).toBe(false);
+    expect(matches("img?.jpg", "img12.jpg")).toBe(false);
+  });
+
+  it("整个文件名都需匹配", () => {
+    expect(matches("a.png", "ba.png")).toBe(false);
+    expect(matches("a", "ab")).toBe(false);
+  });
+
+  it(". 按字面匹配", () => {
+    expect(matches("a.png", "a.png")).toBe(true);
+    expect(matches("a.png", "aXpng")).toBe(false);
+  });
+
+  it.each(["a+b.png", "a(1).png", "$a^b{2}|c.png", "a\\b.png", "a].png"])(
+    "正则元字符按字面匹配：%s",
+    (name) => {
+      expect(matches(name, name)).toBe(true);
+    }
+  );
+
+  it("+ 不表示重复", () => {
+    expect(matches("a+.png", "aa.png")).toBe(false);
+  });
+
+  it("( 不开启分组", () => {
+    expect(() => globToRegExp("a(.png", false)).not.toThrow();
+    expect(matches("a(.png", "a(.png")).toBe(true);
+  });
+
+  it("[abc] 匹配其中一个字符，[!abc] 表示取反", () => {
+    expect(matches("img[12].png", "img1.png")).toBe(true);
+    expect(matches("img[12].png", "img3.png")).toBe(false);
+    expect(matches("img[!12].png", "img3.png")).toBe(true);
+    expect(matches("img[!12].png", "img1.png")).toBe(false);
+  });
+
+  it("未闭合的 [ 按字面匹配", () => {
+    expect(matches("a[.png", "a[.png")).toBe(true);
+  });
+
+  it("默认不区分大小写", () => {
+    expect(matches("*.PNG", "photo.png")).toBe(true);
+    expect(matches("IMG?.jpg", "img1.JPG")).toBe(true);
+  });
+
+  it("区分大小写时大小写不同不匹配", () => {
+    expect(matches("*.PNG", "photo.png", true)).toBe(false);
+    expect(matches("*.PNG", "photo.PNG", true)).toBe(true);
+  });
+});
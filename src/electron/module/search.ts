@@ -0,0 +1,209 @@
+import { promises as fs } from "fs";
+import { EventEmitter } from "events";
+import * as path from "path";
+import {
+  SearchModeEnum,
+  type FileItem,
+  type SearchEvent,
+  type SearchOptions,
+} from "@/types";
+import { createFileItem, resolveDirectoryPath } from "./directory";
+
+const DEFAULT_MAX_DEPTH = 8; // 默认最大搜索深度
+const DEFAULT_MAX_RESULTS = 5000; // 默认最多返回的结果数量
+const FLUSH_INTERVAL_MS = 150; // 结果推送间隔
+const FLUSH_BATCH_SIZE = 100; // 积累到多少条立即推送
+
+/**
+ * 搜索时跳过的目录（依赖、版本库、系统目录等，通常体积大且不含用户图片）
+ */
+const SKIPPED_DIRECTORIES = new Set([
+  "node_modules",
+  "bower_components",
+  ".git",
+  ".svn",
+  ".hg",
+  "__pycache__",
+  ".cache",
+  "$RECYCLE.BIN",
+  "System Volume Information",
+]);
+
+/**
+ * 搜索事件（"event"，参数为 SearchEvent）
+ */
+export const searchEvents = new EventEmitter();
+
+// 进行中的搜索（搜索 ID -> 是否已取消）
+const running = new Map<string, { cancelled: boolean }>();
+
+/**
+ * 将通配符表达式转换为正则（支持 * ? 与 [abc]）
+ */
+export function globToRegExp(glob: string, caseSensitive: boolean) {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      source += ".*";
+    } else if (c === "?") {
+      source += ".";
+    } else if (c === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end > i + 1) {
+        const body = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+        source += `[${body.startsWith("!") ? "^" + body.slice(1) : body}]`;
+        i = end;
+      } else {
+        source += "\\[";
+      }
+    } else {
+      source += c.replace(/[.+^${}()|\\\]]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, caseSensitive ? "" : "i");
+}
+
+/**
+ * 根据搜索选项生成文件名匹配函数
+ */
+function createMatcher(options: SearchOptions): (name: string) => boolean {
+  const query = options.query.trim();
+  const caseSensitive = !!options.caseSensitive;
+  if (options.mode === SearchModeEnum.GLOB) {
+    const re = globToRegExp(query, caseSensitive);
+    return (name) => re.test(name);
+  }
+  const needle = caseSensitive ? query : query.toLowerCase();
+  return (name) => (caseSensitive ? name : name.toLowerCase()).includes(needle);
+}
+
+/**
+ * 递归搜索目录（按文件名匹配文件夹与图片）
+ * @param searchId 搜索 ID（由调用方生成，用于区分推送的事件与取消搜索）
+ * @param rootPath 搜索根目录，不传则使用系统默认路径（与 getDirectoryContents 一致）
+ * @param options 搜索选项：关键字、匹配方式、最大深度等
+ *
+ * 行为说明：
+ * - 立即返回，搜索在后台按广度优先进行，匹配结果分批通过 searchEvents 的 "event" 事件推送
+ * - 跳过隐藏目录（可配置）与 node_modules 等目录，不跟随符号链接
+ * - 结束（完成、取消或达到结果上限）时推送 type 为 "done" 的事件
+ */
+export async function searchDirectory(
+  searchId: string,
+  rootPath: string | undefined,
+  options: SearchOptions
+): Promise<void> {
+  const root = resolveDirectoryPath(rootPath);
+  const state = { cancelled: false };
+  running.set(searchId, state);
+
+  if (root === null || !options.query.trim()) {
+    running.delete(searchId);
+    searchEvents.emit("event", {
+      searchId,
+      type: "done",
+      total: 0,
+      truncated: false,
+      cancelled: false,
+    } satisfies SearchEvent);
+    return;
+  }
+
+  walk(searchId, root, options, state).catch((error) => {
+    console.error(`搜索失败: ${root}`, error);
+  });
+}
+
+/**
+ * 取消搜索
+ * @param searchId 搜索 ID
+ */
+export function cancelSearch(searchId: string): void {
+  const state = running.get(searchId);
+  if (state) state.cancelled = true;
+}
+
+async function walk(
+  searchId: string,
+  root: string,
+  options: SearchOptions,
+  state: { cancelled: boolean }
+) {
+  const matches = createMatcher(options);
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  const queue: { dir: string; depth: number }[] = [{ dir: root, depth: 0 }];
+  let buffer: FileItem[] = [];
+  let lastFlush = Date.now();
+  let total = 0;
+  let truncated = false;
+
+  const flush = () => {
+    if (buffer.length) {
+      searchEvents.emit("event", {
+        searchId,
+        type: "match",
+        items: buffer,
+      } satisfies SearchEvent);
+      buffer = [];
+    }
+    lastFlush = Date.now();
+  };
+
+  try {
+    while (queue.length && !state.cancelled && !truncated) {
+      const { dir, depth } = queue.shift()!;
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        continue; // 无权限等情况跳过该目录
+      }
+
+      for (const entry of entries) {
+        if (state.cancelled) break;
+        const hidden = entry.name.startsWith(".");
+        if (hidden && !options.includeHidden) continue;
+        const entryPath = path.join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          if (SKIPPED_DIRECTORIES.has(entry.name)) continue;
+          if (depth < maxDepth) {
+            queue.push({ dir: entryPath, depth: depth + 1 });
+          }
+        } else if (!entry.isFile()) {
+          continue;
+        }
+
+        if (!matches(entry.name)) continue;
+        const item = await createFileItem(entryPath);
+        if (!item) continue;
+        buffer.push(item);
+        total++;
+        if (total >= maxResults) {
+          truncated = true;
+          break;
+        }
+        if (
+          buffer.length >= FLUSH_BATCH_SIZE ||
+          Date.now() - lastFlush >= FLUSH_INTERVAL_MS
+        ) {
+          flush();
+        }
+      }
+      // 长时间没有新匹配时也要把已积累的结果推送出去
+      if (Date.now() - lastFlush >= FLUSH_INTERVAL_MS) flush();
+    }
+  } finally {
+    flush();
+    running.delete(searchId);
+    searchEvents.emit("event", {
+      searchId,
+      type: "done",
+      total,
+      truncated,
+      cancelled: state.cancelled,
+    } satisfies SearchEvent);
+  }
+}
@@ -0,0 +1,228 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import * as os from "os";
+import { createHash } from "crypto";
+import sharp from "sharp";
+import bmp from "sharp-bmp";
+
+/**
+ * 本地图片协议名（主进程中注册，渲染进程通过该协议加载缩略图与原图）
+ * - local-image://thumbnail/?path=xxx&v=xxx 缩略图
+ * - local-image://original/?path=xxx&v=xxx 原图
+ */
+export const LOCAL_IMAGE_SCHEME = "local-image";
+
+const THUMBNAIL_SIZE = 240; // 缩略图最长边（像素），网格中按 100px 展示，预留高分屏余量
+const THUMBNAIL_QUALITY = 70; // 缩略图 WebP 质量
+const MAX_ENTRY_AGE = 30 * 24 * 60 * 60 * 1000; // 缓存条目最长保留 30 天
+const PRUNE_EVERY_WRITES = 50; // 每写入 N 个新缩略图检查一次缓存容量
+
+let cacheDir = path.join(
+  os.tmpdir(),
+  "desktop-picture-compression-tool",
+  "thumbnails"
+);
+let maxCacheBytes = 200 * 1024 * 1024; // 缓存容量上限，默认 200MB
+let writesSincePrune = 0;
+let pruning: Promise<void> | null = null;
+
+// 正在生成中的缩略图，避免同一张图片被并发重复生成
+const pending = new Map<string, Promise<string>>();
+// 每个源文件最近一次使用的缓存 key，源文件变化后用于清理旧条目
+const latestKeyByPath = new Map<string, string>();
+
+/**
+ * 配置缩略图缓存
+ * @param opts.dir 缓存目录（建议使用 app.getPath("userData") 下的子目录）
+ * @param opts.maxBytes 缓存容量上限（字节）
+ */
+export function configureThumbnailCache(opts: {
+  dir?: string;
+  maxBytes?: number;
+}) {
+  if (opts.dir) cacheDir = opts.dir;
+  if (typeof opts.maxBytes === "number" && opts.maxBytes > 0) {
+    maxCacheBytes = opts.maxBytes;
+  }
+}
+
+/**
+ * 生成缓存 key：路径 + 修改时间 + 文件大小，任意一项变化都会生成新的缩略图
+ */
+function cacheKey(filePath: string, mtimeMs: number, size: number) {
+  return createHash("sha1")
+    .update(`${path.resolve(filePath)}|${Math.floor(mtimeMs)}|${size}`)
+    .digest("hex");
+}
+
+/**
+ * 构造缩略图地址（供 FileItem.thumbnailUrl 使用）
+ * v 参数携带修改时间与大小，文件变化后地址随之变化，避免渲染进程使用旧图
+ */
+export function buildThumbnailUrl(
+  filePath: string,
+  mtimeMs: number,
+  size: number
+) {
+  const query = new URLSearchParams({
+    path: filePath,
+    v: `${Math.floor(mtimeMs)}-${size}`,
+  });
+  return `${LOCAL_IMAGE_SCHEME}://thumbnail/?${query.toString()}`;
+}
+
+/**
+ * 构造原图地址（供 FileItem.originalUrl 使用，用于大图预览、裁剪与水印预览）
+ */
+export function buildOriginalUrl(
+  filePath: string,
+  mtimeMs: number,
+  size: number
+) {
+  const query = new URLSearchParams({
+    path: filePath,
+    v: `${Math.floor(mtimeMs)}-${size}`,
+  });
+  return `${LOCAL_IMAGE_SCHEME}://original/?${query.toString()}`;
+}
+
+/**
+ * 获取图片缩略图（命中磁盘缓存直接返回，否则使用 sharp 生成）
+ * @param filePath 图片完整路径
+ * @returns Promise<string> 缩略图缓存文件路径
+ */
+export async function getThumbnail(filePath: string): Promise<string> {
+  const stat = await fs.stat(filePath);
+  if (!stat.isFile()) {
+    throw new Error(`不是文件: ${filePath}`);
+  }
+  const key = cacheKey(filePath, stat.mtimeMs, stat.size);
+  const cachePath = path.join(cacheDir, key.slice(0, 2), `${key}.webp`);
+
+  // 源文件已变化，旧缩略图不再可能命中，直接清理
+  const previousKey = latestKeyByPath.get(filePath);
+  if (previousKey && previousKey !== key) {
+    fs.unlink(
+      path.join(cacheDir, previousKey.slice(0, 2), `${previousKey}.webp`)
+    ).catch(() => {});
+  }
+  latestKeyByPath.set(filePath, key);
+
+  try {
+    // 命中缓存：刷新访问时间，容量淘汰时按最近使用排序
+    const now = new Date();
+    await fs.utimes(cachePath, now, now);
+    return cachePath;
+  } catch {
+    // 未命中，继续生成
+  }
+
+  const inflight = pending.get(key);
+  if (inflight) return inflight;
+
+  const job = generateThumbnail(filePath, cachePath).finally(() => {
+    pending.delete(key);
+  });
+  pending.set(key, job);
+  return job;
+}
+
+async function generateThumbnail(filePath: string, cachePath: string) {
+  const ext = path.extname(filePath).toLowerCase();
+  // BMP 需借助 sharp-bmp 解码
+  const image =
+    ext === ".bmp"
+      ? (bmp.sharpFromBmp(filePath) as sharp.Sharp)
+      : sharp(filePath, { failOn: "none" });
+
+  await fs.mkdir(path.dirname(cachePath), { recursive: true });
+  // 先写临时文件再重命名，避免读到写了一半的缩略图
+  const tmpPath = `${cachePath}.${process.pid}.tmp`;
+  try {
+    await image
+      .rotate() // 按 EXIF 方向摆正
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .webp({ quality: THUMBNAIL_QUALITY })
+      .toFile(tmpPath);
+    await fs.rename(tmpPath, cachePath);
+  } catch (error) {
+    await fs.unlink(tmpPath).catch(() => {});
+    throw error;
+  }
+
+  writesSincePrune++;
+  if (writesSincePrune >= PRUNE_EVERY_WRITES) {
+    writesSincePrune = 0;
+    pruneThumbnailCache().catch((error) => {
+      console.error("清理缩略图缓存失败:", error);
+    });
+  }
+  return cachePath;
+}
+
+/**
+ * 清理缩略图缓存
+ * - 删除超过最长保留时间未被访问的条目（通常是源文件已修改或删除）
+ * - 总大小超过上限时，按最近访问时间从旧到新删除，直到降到上限的 80%
+ */
+export async function pruneThumbnailCache(): Promise<void> {
+  if (pruning) return pruning;
+  pruning = (async () => {
+    const entries: { file: string; size: number; mtimeMs: number }[] = [];
+    let buckets: string[];
+    try {
+      buckets = await fs.readdir(cacheDir);
+    } catch {
+      return; // 缓存目录尚未创建
+    }
+
+    const now = Date.now();
+    for (const bucket of buckets) {
+      const bucketDir = path.join(cacheDir, bucket);
+      let files: string[];
+      try {
+        files = await fs.readdir(bucketDir);
+      } catch {
+        continue;
+      }
+      for (const name of files) {
+        const file = path.join(bucketDir, name);
+        try {
+          const stat = await fs.stat(file);
+          // 过期条目或遗留的临时文件直接删除
+          if (
+            now - stat.mtimeMs > MAX_ENTRY_AGE ||
+            (name.endsWith(".tmp") && now - stat.mtimeMs > 60 * 1000)
+          ) {
+            await fs.unlink(file);
+            continue;
+          }
+          entries.push({ file, size: stat.size, mtimeMs: stat.mtimeMs });
+        } catch {
+          // 文件可能已被并发删除，忽略
+        }
+      }
+    }
+
+    let total = entries.reduce((sum, e) => sum + e.size, 0);
+    if (total <= maxCacheBytes) return;
+
+    const target = maxCacheBytes * 0.8;
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const entry of entries) {
+      if (total <= target) break;
+      try {
+        await fs.unlink(entry.file);
+        total -= entry.size;
+      } catch {
+        // 忽略删除失败的条目
+      }
+    }
+  })().finally(() => {
+    pruning = null;
+  });
+  return pruning;
+}
@@ -0,0 +1,147 @@
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  ValidationError,
+  absolutePath,
+  args,
+  mutablePath,
+  number,
+  object,
+  optional,
+  string,
+  type Schema,
+} from "./validation";
+
+// 执行校验并返回抛出的 ValidationError（未抛出时测试失败）
+function rejection(schema: Schema<unknown>, value: unknown, p = "value") {
+  try {
+    schema(value, p);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return error as ValidationError;
+  }
+  throw new Error("校验应当失败");
+}
+
+describe("args", () => {
+  const schema = args(string(), optional(number()));
+
+  it("按位置校验参数，缺省的可选参数为 undefined", () => {
+    expect(schema(["a"], "args")).toEqual(["a", undefined]);
+    expect(schema(["a", 1], "args")).toEqual(["a", 1]);
+  });
+
+  it("拒绝多余的参数", () => {
+    expect(rejection(schema, ["a", 1, "extra"], "args").path).toBe("args");
+  });
+
+  it("拒绝非数组", () => {
+    expect(rejection(schema, "a", "args").path).toBe("args");
+  });
+
+  it("错误路径指向出错的参数", () => {
+    expect(rejection(schema, [1], "args").path).toBe("args[0]");
+  });
+});
+
+describe("absolutePath", () => {
+  const schema = absolutePath();
+  const abs = path.resolve("/tmp", "a.png");
+
+  it("接受绝对路径", () => {
+    expect(schema(abs, "p")).toBe(abs);
+  });
+
+  it("拒绝相对路径", () => {
+    rejection(schema, "a.png");
+    rejection(schema, "../a.png");
+    rejection(schema, "./dir/a.png");
+  });
+
+  it("拒绝空字符", () => {
+    rejection(schema, `${abs}\0.txt`);
+  });
+
+  it("拒绝空字符串与非字符串", () => {
+    rejection(schema, "");
+    rejection(schema, 1);
+    rejection(schema, undefined);
+  });
+});
+
+describe("mutablePath", () => {
+  const schema = mutablePath();
+  const root = path.parse(process.cwd()).root;
+  const home = os.homedir();
+
+  it("接受普通文件路径", () => {
+    const file = path.join(home, "a.png");
+    expect(schema(file, "p")).toBe(file);
+  });
+
+  it("拒绝磁盘根目录", () => {
+    rejection(schema, root);
+  });
+
+  it("拒绝用户主目录（包括结尾带分隔符的写法）", () => {
+    rejection(schema, home);
+    rejection(schema, home + path.sep);
+    rejection(schema, path.join(home, "dir", ".."));
+  });
+
+  it("拒绝相对路径", () => {
+    rejection(schema, "a.png");
+  });
+});
+
+describe("number", () => {
+  it("限制为整数", () => {
+    const schema = number({ integer: true });
+    expect(schema(3, "n")).toBe(3);
+    rejection(schema, 3.5);
+  });
+
+  it("限制取值范围（包含边界）", () => {
+    const schema = number({ min: 1, max: 100 });
+    expect(schema(1, "n")).toBe(1);
+    expect(schema(100, "n")).toBe(100);
+    rejection(schema, 0.5);
+    rejection(schema, 101);
+  });
+
+  it("拒绝非有限数字", () => {
+    const schema = number();
+    rejection(schema, NaN);
+    rejection(schema, Infinity);
+    rejection(schema, "1");
+  });
+});
+
+describe("object", () => {
+  const schema = object<{ width: number; name?: string }>({
+    width: number({ min: 1 }),
+    name: optional(string()),
+  });
+
+  it("丢弃未声明的字段", () => {
+    expect(schema({ width: 10, extra: true }, "o")).toEqual({ width: 10 });
+  });
+
+  it("不保留值为 undefined 的可选字段", () => {
+    expect(Object.keys(schema({ width: 10, name: null }, "o"))).toEqual([
+      "width",
+    ]);
+  });
+
+  it("错误路径包含字段名", () => {
+    expect(rejection(schema, { width: 0 }, "args[2]").path).toBe(
+      "args[2].width"
+    );
+  });
+
+  it("拒绝数组与 null", () => {
+    rejection(schema, [10]);
+    rejection(schema, null);
+  });
+});
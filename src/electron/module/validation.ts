@@ -0,0 +1,187 @@
+import * as path from "path";
+import * as os from "os";
+
+/**
+ * 参数校验失败
+ */
+export class ValidationError extends Error {
+  /**
+   * 未通过校验的参数位置，如 "args[0][2]"、"args[2].width"
+   */
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`参数 ${path} ${message}`);
+    this.name = "ValidationError";
+    this.path = path;
+  }
+}
+
+/**
+ * 校验函数：通过时返回（可能经过清理的）值，不通过时抛出 ValidationError
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/**
+ * 字符串
+ */
+export function string(
+  options: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}
+): Schema<string> {
+  return (value, p) => {
+    if (typeof value !== "string") throw new ValidationError(p, "必须是字符串");
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      throw new ValidationError(p, `长度不能小于 ${options.minLength}`);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      throw new ValidationError(p, `长度不能大于 ${options.maxLength}`);
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      throw new ValidationError(p, "格式不正确");
+    }
+    return value;
+  };
+}
+
+/**
+ * 有限数字（可限制为整数与取值范围）
+ */
+export function number(
+  options: { min?: number; max?: number; integer?: boolean } = {}
+): Schema<number> {
+  return (value, p) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new ValidationError(p, "必须是有限数字");
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      throw new ValidationError(p, "必须是整数");
+    }
+    if (options.min !== undefined && value < options.min) {
+      throw new ValidationError(p, `不能小于 ${options.min}`);
+    }
+    if (options.max !== undefined && value > options.max) {
+      throw new ValidationError(p, `不能大于 ${options.max}`);
+    }
+    return value;
+  };
+}
+
+/**
+ * 布尔值
+ */
+export function boolean(): Schema<boolean> {
+  return (value, p) => {
+    if (typeof value !== "boolean")
+      throw new ValidationError(p, "必须是布尔值");
+    return value;
+  };
+}
+
+/**
+ * 枚举值（只能是给定值之一）
+ */
+export function oneOf<const T extends readonly (string | number)[]>(
+  values: T
+): Schema<T[number]> {
+  return (value, p) => {
+    if (!values.includes(value as string | number)) {
+      throw new ValidationError(p, `必须是 ${values.join(" / ")} 之一`);
+    }
+    return value as T[number];
+  };
+}
+
+/**
+ * 可选值（undefined 与 null 均视为未传）
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, p) =>
+    value === undefined || value === null ? undefined : schema(value, p);
+}
+
+/**
+ * 数组
+ */
+export function array<T>(
+  item: Schema<T>,
+  options: { minLength?: number; maxLength?: number } = {}
+): Schema<T[]> {
+  return (value, p) => {
+    if (!Array.isArray(value)) throw new ValidationError(p, "必须是数组");
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      throw new ValidationError(p, `至少需要 ${options.minLength} 项`);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      throw new ValidationError(p, `最多 ${options.maxLength} 项`);
+    }
+    return value.map((v, i) => item(v, `${p}[${i}]`));
+  };
+}
+
+/**
+ * 对象：只保留声明的字段，未声明的字段会被丢弃
+ */
+export function object<T extends Record<string, unknown>>(shape: {
+  [K in keyof T]: Schema<T[K]>;
+}): Schema<T> {
+  return (value, p) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new ValidationError(p, "必须是对象");
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const v = shape[key](source[key], `${p}.${key}`);
+      if (v !== undefined) result[key] = v;
+    }
+    return result as T;
+  };
+}
+
+/**
+ * 调用参数列表：按位置逐个校验，多余的参数会被拒绝
+ */
+export function args<T extends unknown[]>(
+  ...schemas: { [I in keyof T]: Schema<T[I]> }
+): Schema<T> {
+  return (value, p) => {
+    if (!Array.isArray(value)) throw new ValidationError(p, "必须是参数列表");
+    if (value.length > schemas.length) {
+      throw new ValidationError(p, `最多 ${schemas.length} 个参数`);
+    }
+    return schemas.map((schema, i) =>
+      (schema as Schema<unknown>)(value[i], `${p}[${i}]`)
+    ) as T;
+  };
+}
+
+/**
+ * 绝对路径（不允许空字符与相对路径）
+ */
+export function absolutePath(): Schema<string> {
+  const base = string({ minLength: 1, maxLength: 4096 });
+  return (value, p) => {
+    const s = base(value, p);
+    if (s.includes("\0")) throw new ValidationError(p, "不能包含空字符");
+    if (!path.isAbsolute(s)) throw new ValidationError(p, "必须是绝对路径");
+    return s;
+  };
+}
+
+/**
+ * 可删除/改名的路径：绝对路径，且不能是磁盘根目录或用户主目录
+ */
+export function mutablePath(): Schema<string> {
+  const base = absolutePath();
+  return (value, p) => {
+    const s = base(value, p);
+    const resolved = path.resolve(s);
+    if (path.parse(resolved).root === resolved) {
+      throw new ValidationError(p, "不能是磁盘根目录");
+    }
+    if (resolved === path.resolve(os.homedir())) {
+      throw new ValidationError(p, "不能是用户主目录");
+    }
+    return s;
+  };
+}
@@ -0,0 +1,232 @@
+import { promises as fs, watch, type FSWatcher } from "fs";
+import { EventEmitter } from "events";
+import * as path from "path";
+import type { DirectoryChange, DirectoryListOptions } from "@/types";
+import {
+  createFileItem,
+  IMAGE_EXTENSIONS,
+  needsDimensions,
+  resolveDirectoryPath,
+} from "./directory";
+
+const DEBOUNCE_MS = 300; // 事件合并的静默时间
+const MAX_WAIT_MS = 1500; // 持续有事件时，最长等待多久也要推送一次
+
+type Snapshot = { mtimeMs: number; size: number };
+
+type WatchEntry = {
+  dirPath: string;
+  watcher: FSWatcher;
+  known: Map<string, Snapshot>; // 已知条目（文件名 -> 状态），用于计算差异
+  pendingNames: Set<string>; // 等待处理的文件名
+  fullRescan: boolean; // 平台未提供文件名时需要整体重新扫描
+  dimensions: boolean; // 推送的条目是否需要带上图片尺寸
+  timer?: NodeJS.Timeout;
+  firstEventAt?: number;
+  flushing: boolean;
+};
+
+/**
+ * 目录变化事件（"change"，参数为 DirectoryChange）
+ */
+export const watcherEvents = new EventEmitter();
+
+const watches = new Map<string, WatchEntry>();
+let watchSeq = 0;
+
+/**
+ * 读取单个条目状态，非文件夹/图片或不存在时返回 null
+ */
+async function statEntry(itemPath: string): Promise<Snapshot | null> {
+  try {
+    const stat = await fs.stat(itemPath);
+    if (stat.isDirectory()) return { mtimeMs: 0, size: 0 }; // 文件夹内部变化不影响条目本身
+    const ext = path.extname(itemPath).toLowerCase();
+    if (stat.isFile() && IMAGE_EXTENSIONS.includes(ext)) {
+      return { mtimeMs: stat.mtimeMs, size: stat.size };
+    }
+  } catch {
+    // 不存在或无法访问
+  }
+  return null;
+}
+
+/**
+ * 读取目录下的文件夹与图片条目状态
+ */
+async function snapshotDirectory(dirPath: string) {
+  const known = new Map<string, Snapshot>();
+  const names = await fs.readdir(dirPath);
+  for (const name of names) {
+    const snapshot = await statEntry(path.join(dirPath, name));
+    if (snapshot) known.set(name, snapshot);
+  }
+  return known;
+}
+
+/**
+ * 开始监听目录变化
+ * @param dirPath 目录路径，不传则使用系统默认路径（与 getDirectoryContents 一致）
+ * @param options 列表当前的排序与筛选条件（与 openDirectoryCursor 一致）
+ * @returns Promise<string | null> 监听 ID；Windows 磁盘驱动器列表等无法监听的情况返回 null
+ *
+ * 行为说明：
+ * - 文件系统事件会被防抖合并，按新增/删除/修改分组后通过 watcherEvents 的 "change" 事件推送
+ * - 仅关注文件夹与图片文件，其他文件的变化会被忽略
+ * - 排序或筛选依赖图片尺寸时，推送的条目会带上宽高，便于渲染进程按同样规则插入
+ */
+export async function watchDirectory(
+  dirPath?: string,
+  options?: DirectoryListOptions
+): Promise<string | null> {
+  const targetPath = resolveDirectoryPath(dirPath);
+  if (targetPath === null) return null;
+
+  let known: Map<string, Snapshot>;
+  try {
+    known = await snapshotDirectory(targetPath);
+  } catch (error) {
+    console.error(`无法监听目录: ${targetPath}`, error);
+    return null;
+  }
+
+  const watchId = `watch-${++watchSeq}`;
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(targetPath, { persistent: false }, (_event, filename) => {
+      const entry = watches.get(watchId);
+      if (!entry) return;
+      if (filename) {
+        entry.pendingNames.add(filename.toString());
+      } else {
+        entry.fullRescan = true;
+      }
+      schedule(watchId);
+    });
+  } catch (error) {
+    console.error(`无法监听目录: ${targetPath}`, error);
+    return null;
+  }
+
+  watcher.on("error", (error) => {
+    // 目录被删除或无权限时停止监听
+    console.error(`目录监听出错: ${targetPath}`, error);
+    unwatchDirectory(watchId);
+  });
+
+  watches.set(watchId, {
+    dirPath: targetPath,
+    watcher,
+    known,
+    pendingNames: new Set(),
+    fullRescan: false,
+    dimensions: needsDimensions(options),
+    flushing: false,
+  });
+  return watchId;
+}
+
+/**
+ * 停止监听目录
+ * @param watchId 监听 ID（由 watchDirectory 返回）
+ */
+export function unwatchDirectory(watchId: string): void {
+  const entry = watches.get(watchId);
+  if (!entry) return;
+  if (entry.timer) clearTimeout(entry.timer);
+  entry.watcher.close();
+  watches.delete(watchId);
+}
+
+function schedule(watchId: string) {
+  const entry = watches.get(watchId);
+  if (!entry) return;
+  const now = Date.now();
+  entry.firstEventAt ??= now;
+  if (entry.timer) clearTimeout(entry.timer);
+  const wait = now - entry.firstEventAt >= MAX_WAIT_MS ? 0 : DEBOUNCE_MS;
+  entry.timer = setTimeout(() => {
+    flush(watchId).catch((error) => {
+      console.error(`处理目录变化失败: ${entry.dirPath}`, error);
+    });
+  }, wait);
+}
+
+/**
+ * 处理积累的事件，计算差异并推送
+ */
+async function flush(watchId: string) {
+  const entry = watches.get(watchId);
+  if (!entry) return;
+  if (entry.flushing) {
+    // 上一次处理尚未完成，稍后再处理
+    schedule(watchId);
+    return;
+  }
+  entry.flushing = true;
+  entry.timer = undefined;
+  entry.firstEventAt = undefined;
+
+  try {
+    let names: string[];
+    if (entry.fullRescan) {
+      entry.fullRescan = false;
+      entry.pendingNames.clear();
+      let current: string[] = [];
+      try {
+        current = await fs.readdir(entry.dirPath);
+      } catch {
+        // 目录已不存在，视为全部删除
+      }
+      names = Array.from(new Set([...entry.known.keys(), ...current]));
+    } else {
+      names = Array.from(entry.pendingNames);
+      entry.pendingNames.clear();
+    }
+
+    const change: DirectoryChange = {
+      watchId,
+      dirPath: entry.dirPath,
+      added: [],
+      removed: [],
+      changed: [],
+    };
+
+    for (const name of names) {
+      const itemPath = path.join(entry.dirPath, name);
+      const previous = entry.known.get(name);
+      const snapshot = await statEntry(itemPath);
+      if (!snapshot) {
+        if (previous) {
+          entry.known.delete(name);
+          change.removed.push(itemPath);
+        }
+        continue;
+      }
+      if (
+        previous &&
+        previous.mtimeMs === snapshot.mtimeMs &&
+        previous.size === snapshot.size
+      ) {
+        continue;
+      }
+      const item = await createFileItem(itemPath, {
+        dimensions: entry.dimensions,
+      });
+      if (!item) continue;
+      entry.known.set(name, snapshot);
+      if (previous) change.changed.push(item);
+      else change.added.push(item);
+    }
+
+    // 监听可能已在处理期间被取消
+    if (
+      watches.has(watchId) &&
+      (change.added.length || change.removed.length || change.changed.length)
+    ) {
+      watcherEvents.emit("change", change);
+    }
+  } finally {
+    entry.flushing = false;
+  }
+}
@@ -1,26 +1,68 @@
-import { contextBridge } from "electron";
-import {
-  getDirectoryContents,
-  getBreadcrumbList,
-  getFileInfo,
-} from "./module/directory";
-import {
-  deleteFile,
-  renameFile,
-  compressFiles,
-  convertFiles,
-  addWatermarks,
-  cropImage,
-} from "./module/handleFile";
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from "electron";
+import type {
+  ElectronAPI,
+  IpcEventChannels,
+  IpcInvokeChannels,
+  IpcResponse,
+} from "@/types";
 
-contextBridge.exposeInMainWorld("electronAPI", {
-  getDirectoryContents, // 获取目录内容
-  getBreadcrumbList, // 获取面包屑列表
-  deleteFile, // 批量删除文件
-  renameFile, // 重命名文件
-  compressFiles, // 批量压缩图片
-  convertFiles, // 批量格式转换
-  addWatermarks, // 加水印
-  cropImage, // 裁剪图片
-  getFileInfo, // 获取文件详细信息
-});
+/**
+ * 转发到主进程的 IPC 调用（通道名即方法名，文件与图片处理都在主进程执行）
+ * 主进程返回 IpcResponse：成功时解包为数据，失败时以结构化的 IpcError 对象 reject
+ */
+const invoke = <K extends keyof IpcInvokeChannels>(channel: K) =>
+  (async (...args: unknown[]) => {
+    const response: IpcResponse<unknown> = await ipcRenderer.invoke(
+      channel,
+      ...args
+    );
+    if (!response.ok) throw response.error;
+    return response.data;
+  }) as IpcInvokeChannels[K];
+
+/**
+ * 订阅主进程推送的事件
+ * @returns 订阅函数，调用后返回取消订阅函数
+ */
+const subscribe =
+  <K extends keyof IpcEventChannels>(channel: K) =>
+  (listener: (payload: IpcEventChannels[K]) => void) => {
+    const handler = (_event: IpcRendererEvent, payload: IpcEventChannels[K]) =>
+      listener(payload);
+    ipcRenderer.on(channel, handler);
+    return () => {
+      ipcRenderer.off(channel, handler);
+    };
+  };
+
+const electronAPI: ElectronAPI = {
+  getDirectoryContents: invoke("getDirectoryContents"), // 获取目录内容
+  openDirectoryCursor: invoke("openDirectoryCursor"), // 打开目录游标
+  readDirectoryCursor: invoke("readDirectoryCursor"), // 分批读取目录内容
+  closeDirectoryCursor: invoke("closeDirectoryCursor"), // 关闭目录游标
+  watchDirectory: invoke("watchDirectory"), // 开始监听目录变化
+  unwatchDirectory: invoke("unwatchDirectory"), // 停止监听目录
+  onDirectoryChange: subscribe("directoryChange"), // 订阅目录变化
+  searchDirectory: invoke("searchDirectory"), // 递归搜索目录
+  cancelSearch: invoke("cancelSearch"), // 取消搜索
+  onSearchEvent: subscribe("searchEvent"), // 订阅搜索事件
+  getBreadcrumbList: invoke("getBreadcrumbList"), // 获取面包屑列表
+  deleteFile: invoke("deleteFile"), // 批量删除文件
+  renameFile: invoke("renameFile"), // 重命名文件
+  compressFiles: invoke("compressFiles"), // 批量压缩图片
+  previewCompression: invoke("previewCompression"), // 压缩预览
+  cancelPreviewCompression: invoke("cancelPreviewCompression"), // 取消压缩预览
+  convertFiles: invoke("convertFiles"), // 批量格式转换
+  detectTransparentImages: invoke("detectTransparentImages"), // 找出含透明通道的图片
+  rasterizeSvgs: invoke("rasterizeSvgs"), // SVG 批量导出位图
+  addWatermarks: invoke("addWatermarks"), // 加水印
+  setJobConcurrency: invoke("setJobConcurrency"), // 设置批量任务并发数
+  cancelJob: invoke("cancelJob"), // 取消批量任务
+  onJobProgress: subscribe("jobProgress"), // 订阅批量任务进度
+  cropImage: invoke("cropImage"), // 裁剪图片
+  generateIconPack: invoke("generateIconPack"), // 生成图标包
+  getFileInfo: invoke("getFileInfo"), // 获取文件详细信息
+  exportTextFile: invoke("exportTextFile"), // 保存文本文件
+};
+
+contextBridge.exposeInMainWorld("electronAPI", electronAPI);
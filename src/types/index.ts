@@ -1,3 +1,5 @@
+import type { ConvertFormat, RasterizeFormat } from "@/utils/format";
+
 export enum FileItemTypeEnum {
   /**
    * 文件夹
@@ -23,9 +25,111 @@ export type FileItem = {
    */
   type: FileItemTypeEnum;
   /**
-   * 图片的Base64数据（仅对图片类型有效）
+   * 缩略图地址（仅对图片类型有效，由主进程按需生成并缓存到磁盘）
+   */
+  thumbnailUrl?: string;
+  /**
+   * 原图地址（仅对图片类型有效，用于大图预览、裁剪与水印预览）
+   */
+  originalUrl?: string;
+  /**
+   * 文件大小（字节，仅对图片类型有效）
+   */
+  size?: number;
+  /**
+   * 最后修改时间（毫秒级时间戳，仅对图片类型有效）
+   */
+  modifiedAt?: number;
+  /**
+   * 图片宽度（像素，仅在按尺寸排序或按方向筛选时读取）
+   */
+  width?: number;
+  /**
+   * 图片高度（像素，仅在按尺寸排序或按方向筛选时读取）
+   */
+  height?: number;
+};
+
+/**
+ * 目录排序字段枚举
+ */
+export enum SortKeyEnum {
+  /**
+   * 名称（自然数字顺序）
+   */
+  NAME = "name",
+  /**
+   * 文件大小
+   */
+  SIZE = "size",
+  /**
+   * 修改时间
    */
-  imageBase64?: string;
+  MODIFIED_AT = "modifiedAt",
+  /**
+   * 像素尺寸（宽 x 高）
+   */
+  DIMENSIONS = "dimensions",
+  /**
+   * 格式（扩展名）
+   */
+  FORMAT = "format",
+}
+
+/**
+ * 图片方向枚举
+ */
+export enum OrientationEnum {
+  /**
+   * 横向
+   */
+  LANDSCAPE = "landscape",
+  /**
+   * 纵向
+   */
+  PORTRAIT = "portrait",
+  /**
+   * 正方形
+   */
+  SQUARE = "square",
+}
+
+/**
+ * 目录排序方式
+ */
+export type DirectorySort = {
+  sortBy: SortKeyEnum;
+  order: "asc" | "desc";
+};
+
+/**
+ * 目录筛选条件（仅作用于图片，文件夹始终保留）
+ */
+export type DirectoryFilter = {
+  /**
+   * 扩展名（不含点号，小写），为空表示不限
+   */
+  extensions?: string[];
+  /**
+   * 最小文件大小（字节）
+   */
+  minSize?: number;
+  /**
+   * 最大文件大小（字节）
+   */
+  maxSize?: number;
+  /**
+   * 图片方向
+   */
+  orientation?: OrientationEnum;
+};
+
+/**
+ * 目录读取选项
+ */
+export type DirectoryListOptions = {
+  sort?: DirectorySort;
+  filter?: DirectoryFilter;
 };
 
 /**
@@ -36,6 +140,605 @@ export type BreadcrumbList = {
   path: string;
 }[];
 
+/**
+ * 目录游标（分批读取目录内容）
+ */
+export type DirectoryCursor = {
+  /**
+   * 游标 ID
+   */
+  cursorId: string;
+  /**
+   * 目录下的条目总数（文件夹 + 图片）
+   */
+  total: number;
+};
+
+/**
+ * 目录游标读取的一批条目
+ */
+export type DirectoryBatch = {
+  items: FileItem[];
+  /**
+   * 是否已读取完毕
+   */
+  done: boolean;
+};
+
+/**
+ * 目录变化（目录监听推送的差异）
+ */
+export type DirectoryChange = {
+  /**
+   * 监听 ID
+   */
+  watchId: string;
+  /**
+   * 被监听的目录路径
+   */
+  dirPath: string;
+  /**
+   * 新增的条目
+   */
+  added: FileItem[];
+  /**
+   * 被删除条目的完整路径
+   */
+  removed: string[];
+  /**
+   * 内容发生变化的条目（缩略图地址已更新）
+   */
+  changed: FileItem[];
+};
+
+/**
+ * 搜索匹配方式枚举
+ */
+export enum SearchModeEnum {
+  /**
+   * 包含关键字
+   */
+  SUBSTRING = "substring",
+  /**
+   * 通配符（支持 * ? [abc]）
+   */
+  GLOB = "glob",
+}
+
+/**
+ * 搜索选项
+ */
+export type SearchOptions = {
+  /**
+   * 关键字或通配符表达式
+   */
+  query: string;
+  mode: SearchModeEnum;
+  /**
+   * 最大搜索深度（根目录为 0），默认 8
+   */
+  maxDepth?: number;
+  /**
+   * 是否搜索隐藏文件与目录，默认否
+   */
+  includeHidden?: boolean;
+  /**
+   * 是否区分大小写，默认否
+   */
+  caseSensitive?: boolean;
+  /**
+   * 最多返回的结果数量，默认 5000
+   */
+  maxResults?: number;
+};
+
+/**
+ * 搜索事件：分批推送的匹配结果，或搜索结束
+ */
+export type SearchEvent =
+  | {
+      searchId: string;
+      type: "match";
+      items: FileItem[];
+    }
+  | {
+      searchId: string;
+      type: "done";
+      /**
+       * 匹配总数
+       */
+      total: number;
+      /**
+       * 是否因达到结果上限而提前结束
+       */
+      truncated: boolean;
+      /**
+       * 是否被取消
+       */
+      cancelled: boolean;
+    };
+
+/**
+ * 批量任务类型枚举
+ */
+export enum JobKindEnum {
+  /**
+   * 压缩
+   */
+  COMPRESS = "compress",
+  /**
+   * 格式转换
+   */
+  CONVERT = "convert",
+  /**
+   * 加水印
+   */
+  WATERMARK = "watermark",
+  /**
+   * SVG 导出位图
+   */
+  RASTERIZE = "rasterize",
+}
+
+/**
+ * 批量任务中单个文件的状态枚举
+ */
+export enum JobFileStatusEnum {
+  /**
+   * 排队中
+   */
+  QUEUED = "queued",
+  /**
+   * 处理中
+   */
+  RUNNING = "running",
+  /**
+   * 已完成
+   */
+  DONE = "done",
+  /**
+   * 失败
+   */
+  FAILED = "failed",
+  /**
+   * 已取消
+   */
+  CANCELLED = "cancelled",
+}
+
+/**
+ * 批量任务选项
+ */
+export type BatchJobOptions = {
+  /**
+   * 任务 ID（由调用方生成，用于区分推送的进度事件），不传则自动生成
+   */
+  jobId?: string;
+};
+
+/**
+ * 批量任务中单个文件的进度
+ */
+export type JobFileProgress = {
+  inputPath: string;
+  status: JobFileStatusEnum;
+  outputPath?: string;
+  /**
+   * 输入文件大小（字节）
+   */
+  bytesIn?: number;
+  /**
+   * 输出文件大小（字节）
+   */
+  bytesOut?: number;
+  /**
+   * 结果说明（如压缩达到的质量）
+   */
+  detail?: string;
+  error?: string;
+};
+
+/**
+ * 批量任务进度事件：任务开始（全部文件进入队列）、单个文件状态变化、任务结束
+ */
+export type JobProgressEvent =
+  | {
+      jobId: string;
+      type: "start";
+      kind: JobKindEnum;
+      /**
+       * 任务包含的文件（输入路径）
+       */
+      files: string[];
+    }
+  | {
+      jobId: string;
+      type: "file";
+      /**
+       * 文件在任务中的下标
+       */
+      index: number;
+      file: JobFileProgress;
+    }
+  | {
+      jobId: string;
+      type: "done";
+      succeeded: number;
+      failed: number;
+      cancelled: number;
+    };
+
+/**
+ * 批量任务中单个文件的处理结果
+ */
+export type BatchFileResult = {
+  inputPath: string;
+  outputPath: string;
+  /**
+   * 写出多个文件时的全部输出路径（如 SVG 导出的各倍数），包含 outputPath
+   */
+  outputPaths?: string[];
+  success: boolean;
+  /**
+   * 最终状态：完成、失败或已取消
+   */
+  status: JobFileStatusEnum;
+  /**
+   * 结果说明（如压缩达到的质量）
+   */
+  detail?: string;
+  error?: string;
+};
+
+/**
+ * 批量任务结果
+ */
+export type BatchJobResult<R extends BatchFileResult = BatchFileResult> = {
+  /**
+   * 是否全部成功
+   */
+  success: boolean;
+  /**
+   * 任务是否被取消（此时部分文件状态为已取消）
+   */
+  cancelled: boolean;
+  results: R[];
+};
+
+/**
+ * 压缩模式枚举
+ */
+export enum CompressModeEnum {
+  /**
+   * 固定质量
+   */
+  QUALITY = "quality",
+  /**
+   * 目标文件大小：自动寻找满足大小限制的最高质量
+   */
+  TARGET_SIZE = "targetSize",
+  /**
+   * 无损重新编码（JPEG 不支持，需选择其他输出格式）
+   */
+  LOSSLESS = "lossless",
+  /**
+   * 自动质量：逐个图片寻找结构相似度（SSIM）满足目标的最低质量
+   */
+  AUTO = "auto",
+}
+
+/**
+ * 压缩输出格式枚举
+ */
+export enum CompressFormatEnum {
+  /**
+   * 与原图格式一致
+   */
+  ORIGINAL = "original",
+  WEBP = "webp",
+  AVIF = "avif",
+  PNG = "png",
+  /**
+   * 原格式、WebP、AVIF 中体积最小者
+   */
+  SMALLEST = "smallest",
+}
+
+/**
+ * 压缩后体积没有减小（无压缩收益）时的处理方式
+ */
+export enum NoGainActionEnum {
+  /**
+   * 丢弃压缩结果，不输出文件
+   */
+  SKIP = "skip",
+  /**
+   * 原样复制原图到输出目录
+   */
+  COPY_ORIGINAL = "copyOriginal",
+  /**
+   * 仍保留压缩结果（不做体积检查）
+   */
+  KEEP = "keep",
+}
+
+/**
+ * 色彩配置文件（ICC）的处理方式
+ */
+export enum ColorProfileEnum {
+  /**
+   * 转换为 sRGB，并嵌入 sRGB 配置文件
+   */
+  SRGB = "srgb",
+  /**
+   * 不转换色彩，保留并嵌入原图的配置文件（输出格式不支持时按 sRGB 输出）
+   */
+  KEEP = "keep",
+  /**
+   * 转换为 sRGB，不嵌入配置文件（体积最小）
+   */
+  STRIP = "strip",
+}
+
+/**
+ * 缩放算法枚举（对应 sharp 的 kernel）
+ */
+export enum ResizeKernelEnum {
+  NEAREST = "nearest",
+  CUBIC = "cubic",
+  MITCHELL = "mitchell",
+  LANCZOS2 = "lanczos2",
+  LANCZOS3 = "lanczos3",
+}
+
+/**
+ * 压缩时的尺寸限制：可同时设置多项，取缩小最多的一项；保持宽高比，不会放大
+ */
+export type CompressResizeOptions = {
+  maxWidth?: number; // 最大宽度（像素）
+  maxHeight?: number; // 最大高度（像素）
+  longEdge?: number; // 长边尺寸（像素）
+  percent?: number; // 按百分比缩小（1-100）
+  kernel?: ResizeKernelEnum; // 缩放算法，默认 lanczos3
+};
+
+/**
+ * 色度抽样：4:2:0 体积更小，4:4:4 保留更多色彩细节
+ */
+export type ChromaSubsampling = "4:2:0" | "4:4:4";
+
+/**
+ * TIFF 压缩方式
+ */
+export type TiffCompression = "none" | "jpeg" | "deflate" | "lzw" | "packbits";
+
+/**
+ * 各格式的高级编码设置（未设置的项使用默认值）
+ */
+export type EncoderSettings = {
+  jpeg?: {
+    progressive?: boolean; // 渐进式，默认开启
+    chromaSubsampling?: ChromaSubsampling; // 默认 4:2:0
+  };
+  png?: {
+    progressive?: boolean; // 隔行扫描，默认关闭
+    palette?: boolean; // 调色板量化，默认开启
+    colors?: number; // 调色板颜色数（2-256），默认 256
+    dither?: number; // 抖动强度（0-1），默认 1
+  };
+  webp?: {
+    effort?: number; // 压缩力度（0-6），默认 4
+    nearLossless?: boolean; // 近无损，默认关闭
+  };
+  avif?: {
+    effort?: number; // 压缩力度（0-9），默认 4
+    chromaSubsampling?: ChromaSubsampling; // 默认 4:4:4
+  };
+  tiff?: {
+    compression?: TiffCompression; // 默认 jpeg（无损模式默认 deflate）
+    predictor?: "none" | "horizontal" | "float"; // 默认 horizontal
+  };
+  gif?: {
+    colors?: number; // 调色板最大颜色数（2-256），默认 256，质量较低时会进一步减少
+    dither?: number; // 抖动强度（0-1），默认 1
+    effort?: number; // 压缩力度（1-10），默认 7
+  };
+  svg?: {
+    precision?: number; // 几何属性保留的小数位数（0-8），默认 3
+  };
+};
+
+/**
+ * 压缩选项
+ */
+export type CompressOptions = {
+  /**
+   * 压缩模式，默认固定质量
+   */
+  mode?: CompressModeEnum;
+  /**
+   * 压缩质量（1-100，默认 80），固定质量模式使用
+   */
+  quality?: number;
+  /**
+   * 目标文件大小（字节），目标文件大小模式使用
+   */
+  targetSize?: number;
+  /**
+   * 目标结构相似度（SSIM，0-1，默认 0.98），自动质量模式使用
+   */
+  targetSsim?: number;
+  /**
+   * 最低质量仍超出目标大小时是否允许缩小图片尺寸，默认否
+   */
+  allowScale?: boolean;
+  /**
+   * 输出格式，默认与原图一致
+   */
+  format?: CompressFormatEnum;
+  /**
+   * 无压缩收益时的处理方式，默认跳过
+   */
+  noGainAction?: NoGainActionEnum;
+  /**
+   * 最小节省比例（0-90，%），输出没有比原图小这么多时视为无压缩收益，默认 0
+   */
+  minSavingsPercent?: number;
+  /**
+   * 尺寸限制，不传则保持原尺寸
+   */
+  resize?: CompressResizeOptions;
+  /**
+   * 各格式的高级编码设置
+   */
+  encoders?: EncoderSettings;
+  /**
+   * 色彩配置文件的处理方式，默认转换为 sRGB 并去除配置文件
+   */
+  colorProfile?: ColorProfileEnum;
+};
+
+/**
+ * 单个文件的压缩结果
+ */
+export type CompressFileResult = BatchFileResult & {
+  /**
+   * 实际使用的压缩质量
+   */
+  quality?: number;
+  /**
+   * 缩放比例（1 表示未缩放）
+   */
+  scale?: number;
+  /**
+   * 是否为无损重新编码
+   */
+  lossless?: boolean;
+  /**
+   * 是否满足目标（目标文件大小模式为文件大小，自动质量模式为结构相似度）
+   */
+  targetMet?: boolean;
+  /**
+   * 输出与原图的结构相似度（仅自动质量模式）
+   */
+  ssim?: number;
+  /**
+   * 原文件大小（字节）
+   */
+  bytesIn?: number;
+  /**
+   * 输出文件大小（字节）
+   */
+  bytesOut?: number;
+  /**
+   * 原图尺寸
+   */
+  width?: number;
+  height?: number;
+  /**
+   * 输出图片尺寸
+   */
+  outputWidth?: number;
+  outputHeight?: number;
+  /**
+   * 是否因无压缩收益而跳过（未输出压缩结果，或已原样复制原图）
+   */
+  skipped?: boolean;
+};
+
+/**
+ * 压缩预览结果（在内存中编码，不写入文件）
+ */
+export type CompressPreview = {
+  /**
+   * 压缩结果图片（data URL；浏览器无法显示的格式转为 PNG 展示）
+   */
+  dataUrl: string;
+  /**
+   * 原图（data URL），仅在浏览器无法直接显示原图格式（如 TIFF）时提供
+   */
+  originalDataUrl?: string;
+  /**
+   * 输出格式扩展名，如 ".webp"
+   */
+  ext: string;
+  bytesIn: number;
+  /**
+   * 预计输出大小（字节）
+   */
+  bytesOut: number;
+  width?: number;
+  height?: number;
+  outputWidth?: number;
+  outputHeight?: number;
+  quality?: number;
+  scale: number;
+  lossless?: boolean;
+  targetMet?: boolean;
+  ssim?: number;
+  /**
+   * 结果说明（与任务面板中的说明一致）
+   */
+  detail: string;
+};
+
+/**
+ * 格式转换的编码选项（各目标格式可用的选项见 CONVERT_FORMATS）
+ */
+export type ConvertOptions = {
+  quality?: number; // 质量（1-100）
+  lossless?: boolean; // 无损编码（WebP、AVIF）
+  effort?: number; // 压缩力度，范围因格式而异
+  colors?: number; // 调色板颜色数（2-256），PNG 不设置时保留全彩
+  compression?: TiffCompression; // TIFF 压缩方式
+  sizes?: number[]; // ICO 包含的图标尺寸（1-256）
+};
+
+/**
+ * 单个文件的格式转换任务
+ */
+export type ConvertTask = {
+  file: FileItem;
+  targetFormat: ConvertFormat;
+  options?: ConvertOptions; // 未设置的项使用该格式的默认值
+  background?: string; // 目标格式不支持透明时透明区域的填充色（#rrggbb），默认白色
+  colorProfile?: ColorProfileEnum; // 色彩配置文件的处理方式，默认转换为 sRGB 并去除配置文件
+};
+
+/**
+ * SVG 导出位图的选项
+ */
+export type RasterizeOptions = {
+  format: RasterizeFormat; // 输出格式
+  width?: number; // 1 倍图宽度（像素），只设置宽或高时按比例计算另一边
+  height?: number; // 1 倍图高度（像素），同时设置宽高时等比缩放到不超过该范围
+  density?: number; // 未设置宽高时的渲染密度（DPI），默认 72，即 SVG 的原始尺寸
+  scales?: number[]; // 导出倍数，默认 [1]；非 1 倍的文件名追加 @2x 等后缀
+  background?: string; // 背景色（#rrggbb），不设置时保留透明（JPG 填充白色）
+  quality?: number; // JPG、WebP 的质量（1-100）
+};
+
+/**
+ * 图标包选项
+ */
+export type IconPackOptions = {
+  appName?: string; // 应用名称（manifest 的 name），默认使用文件名
+  shortName?: string; // 短名称（manifest 的 short_name），默认与应用名称相同
+  themeColor?: string; // 主题色（#rrggbb），默认 #ffffff
+  backgroundColor?: string; // 背景色（#rrggbb），用于 Apple touch 图标与 manifest，默认 #ffffff
+};
+
+/**
+ * 图标包生成结果
+ */
+export type IconPackResult = {
+  outputDir: string; // 图标包文件夹
+  files: string[]; // 生成的文件名
+  manifest: string; // manifest.webmanifest 内容
+  html: string; // 放在 <head> 中的 <link> 与 <meta> 标签
+  upscaled: boolean; // 原图小于最大图标尺寸，大尺寸图标由放大得到
+};
+
 /**
  * 文件详情
  */
@@ -47,6 +750,8 @@ export type FileInfo = {
   modifiedAt: number;
   width?: number;
   height?: number;
+  colorSpace?: string; // 色彩空间，如 srgb、cmyk、b-w
+  iccProfile?: string; // 嵌入的 ICC 配置文件名称，未嵌入时为 undefined
 };
 
 /**
@@ -81,81 +786,171 @@ export enum DropdownMenuEnum {
    * 加水印
    */
   WATERMARK = "watermark",
+  /**
+   * 生成图标包
+   */
+  ICON_PACK = "icon_pack",
+  /**
+   * SVG 导出位图
+   */
+  RASTERIZE = "rasterize",
 }
 
+/**
+ * IPC 错误码枚举
+ */
+export enum IpcErrorCodeEnum {
+  /**
+   * 参数未通过校验（未执行任何文件操作）
+   */
+  INVALID_ARGUMENT = "invalid_argument",
+  /**
+   * 执行过程中出错
+   */
+  INTERNAL = "internal",
+}
+
+/**
+ * IPC 调用失败时的结构化错误（调用 electronAPI 方法时以此对象 reject）
+ */
+export type IpcError = {
+  code: IpcErrorCodeEnum;
+  message: string;
+  /**
+   * 未通过校验的参数位置，如 "args[0][2]"、"args[2].width"
+   */
+  path?: string;
+};
+
+/**
+ * 主进程返回给 preload 的调用结果
+ */
+export type IpcResponse<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: IpcError };
+
+/**
+ * IPC 调用通道约定：渲染进程通过 ipcRenderer.invoke 调用，主进程通过 ipcMain.handle 处理
+ * 通道名与 electronAPI 上的方法名一致，preload 与主进程共用此类型
+ */
+export type IpcInvokeChannels = {
+  getDirectoryContents: (dirPath?: string) => Promise<FileItem[]>; // 获取目录内容
+  openDirectoryCursor: (
+    dirPath?: string,
+    options?: DirectoryListOptions
+  ) => Promise<DirectoryCursor>; // 打开目录游标（支持排序与筛选）
+  readDirectoryCursor: (
+    cursorId: string,
+    count?: number
+  ) => Promise<DirectoryBatch>; // 分批读取目录内容
+  closeDirectoryCursor: (cursorId: string) => Promise<void>; // 关闭目录游标
+  watchDirectory: (
+    dirPath?: string,
+    options?: DirectoryListOptions
+  ) => Promise<string | null>; // 开始监听目录变化（排序与筛选条件决定推送条目是否带尺寸）
+  unwatchDirectory: (watchId: string) => Promise<void>; // 停止监听目录
+  searchDirectory: (
+    searchId: string,
+    rootPath: string | undefined,
+    options: SearchOptions
+  ) => Promise<void>; // 递归搜索目录，结果通过 onSearchEvent 推送
+  cancelSearch: (searchId: string) => Promise<void>; // 取消搜索
+  getBreadcrumbList: (dirPath?: string) => Promise<BreadcrumbList>; // 获取面包屑路径列表
+  deleteFile: (filePaths: string[]) => Promise<boolean>; // 批量删除文件
+  renameFile: (filePath: string, newName: string) => Promise<boolean>; // 重命名文件
+  compressFiles: (
+    filePaths: string[],
+    outputDir: string,
+    options?: CompressOptions,
+    job?: BatchJobOptions
+  ) => Promise<BatchJobResult<CompressFileResult>>; // 批量压缩图片
+  previewCompression: (
+    filePath: string,
+    options?: CompressOptions,
+    previewId?: string
+  ) => Promise<CompressPreview>; // 按压缩选项预览单个图片（同一预览 ID 的新请求会取消上一次）
+  cancelPreviewCompression: (previewId: string) => Promise<void>; // 取消压缩预览
+  convertFiles: (
+    tasks: ConvertTask[],
+    outputDir: string,
+    job?: BatchJobOptions
+  ) => Promise<BatchJobResult>; // 批量格式转换
+  detectTransparentImages: (filePaths: string[]) => Promise<string[]>; // 找出含透明通道的图片
+  rasterizeSvgs: (
+    filePaths: string[],
+    outputDir: string,
+    options: RasterizeOptions,
+    job?: BatchJobOptions
+  ) => Promise<BatchJobResult>; // SVG 批量导出位图
+  addWatermarks: (
+    files: FileItem[],
+    text: string,
+    outputDir: string,
+    opts?: {
+      fontSize?: number;
+      color?: string;
+      position?:
+        | "top-left"
+        | "top-right"
+        | "bottom-left"
+        | "bottom-right"
+        | "center";
+      padding?: number;
+      angle?: number;
+      xRatio?: number;
+      yRatio?: number;
+    },
+    job?: BatchJobOptions
+  ) => Promise<BatchJobResult>; // 加水印
+  setJobConcurrency: (concurrency: number) => Promise<void>; // 设置批量任务队列的并发数
+  cancelJob: (jobId: string) => Promise<boolean>; // 取消批量任务
+  cropImage: (
+    file: FileItem,
+    outputDir: string,
+    cropArea: { left: number; top: number; width: number; height: number }
+  ) => Promise<{
+    success: boolean;
+    result: {
+      inputPath: string;
+      outputPath: string;
+      success: boolean;
+      error?: string;
+    };
+  }>; // 裁剪图片
+  generateIconPack: (
+    file: FileItem,
+    outputDir: string,
+    options?: IconPackOptions
+  ) => Promise<IconPackResult>; // 从图片生成网站图标包
+  getFileInfo: (filePath: string) => Promise<FileInfo>; // 获取文件详细信息
+  exportTextFile: (
+    defaultFileName: string,
+    content: string
+  ) => Promise<string | undefined>; // 保存文本文件（弹出保存对话框）
+};
+
+/**
+ * IPC 事件通道约定：主进程通过 webContents.send 推送，渲染进程通过 electronAPI.onXxx 订阅
+ */
+export type IpcEventChannels = {
+  directoryChange: DirectoryChange; // 目录变化
+  searchEvent: SearchEvent; // 搜索结果与搜索结束
+  jobProgress: JobProgressEvent; // 批量任务进度
+};
+
+/**
+ * preload 暴露给渲染进程的 API
+ */
+export type ElectronAPI = IpcInvokeChannels & {
+  onDirectoryChange: (
+    listener: (change: DirectoryChange) => void
+  ) => () => void; // 订阅目录变化，返回取消订阅函数
+  onSearchEvent: (listener: (event: SearchEvent) => void) => () => void; // 订阅搜索事件，返回取消订阅函数
+  onJobProgress: (listener: (event: JobProgressEvent) => void) => () => void; // 订阅批量任务进度，返回取消订阅函数
+};
+
 declare global {
   interface Window {
-    electronAPI?: {
-      getDirectoryContents: (dirPath?: string) => Promise<FileItem[]>; // 获取目录内容
-      getBreadcrumbList: (dirPath?: string) => BreadcrumbList; // 获取面包屑路径列表
-      deleteFile: (filePaths: string[]) => Promise<boolean>; // 批量删除文件
-      renameFile: (filePath: string, newName: string) => Promise<boolean>; // 重命名文件
-      compressFiles: (
-        filePaths: string[],
-        outputDir: string,
-        quality?: number
-      ) => Promise<{
-        success: boolean;
-        results: {
-          inputPath: string;
-          outputPath: string;
-          success: boolean;
-          error?: string;
-        }[];
-      }>; // 批量压缩图片
-      convertFiles: (
-        tasks: { file: FileItem; targetFormat: "jpg" | "png" | "bmp" }[],
-        outputDir: string
-      ) => Promise<{
-        success: boolean;
-        results: {
-          inputPath: string;
-          outputPath: string;
-          success: boolean;
-          error?: string;
-        }[];
-      }>; // 批量格式转换
-      addWatermarks: (
-        files: FileItem[],
-        text: string,
-        outputDir: string,
-        opts?: {
-          fontSize?: number;
-          color?: string;
-          position?:
-            | "top-left"
-            | "top-right"
-            | "bottom-left"
-            | "bottom-right"
-            | "center";
-          padding?: number;
-          angle?: number;
-          xRatio?: number;
-          yRatio?: number;
-        }
-      ) => Promise<{
-        success: boolean;
-        results: {
-          inputPath: string;
-          outputPath: string;
-          success: boolean;
-          error?: string;
-        }[];
-      }>; // 加水印
-      cropImage: (
-        file: FileItem,
-        outputDir: string,
-        cropArea: { left: number; top: number; width: number; height: number }
-      ) => Promise<{
-        success: boolean;
-        result: {
-          inputPath: string;
-          outputPath: string;
-          success: boolean;
-          error?: string;
-        };
-      }>; // 裁剪图片
-      getFileInfo: (filePath: string) => Promise<FileInfo>;
-    };
+    electronAPI?: ElectronAPI;
   }
 }
@@ -0,0 +1,185 @@
+import { JobFileStatusEnum, type CompressFileResult } from "@/types";
+
+/**
+ * 压缩报告中单个文件的状态
+ */
+export type CompressReportStatus = "done" | "skipped" | "failed" | "cancelled";
+
+export const COMPRESS_REPORT_STATUS_LABELS: Record<
+  CompressReportStatus,
+  string
+> = {
+  done: "完成",
+  skipped: "跳过",
+  failed: "失败",
+  cancelled: "已取消",
+};
+
+/**
+ * 压缩报告中的单个文件
+ */
+export type CompressReportRow = {
+  fileName: string;
+  inputPath: string;
+  outputPath: string; // 未输出文件时为空字符串
+  status: CompressReportStatus;
+  bytesIn?: number;
+  bytesOut?: number;
+  savedPercent?: number; // 节省比例（%），体积增大时为负数
+  dimensions?: string; // 原图尺寸，如 "1920x1080"
+  outputDimensions?: string; // 输出图片尺寸
+  ssim?: number; // 输出与原图的结构相似度（自动质量模式）
+  detail?: string; // 结果说明（质量、格式等）
+  error?: string; // 失败原因
+};
+
+/**
+ * 压缩报告汇总（大小只统计有输出文件的条目）
+ */
+export type CompressReportTotals = {
+  files: number;
+  done: number;
+  skipped: number;
+  failed: number;
+  cancelled: number;
+  lossless: number; // 无损重新编码的文件数
+  targetUnmet: number; // 无法达到目标（大小或相似度）的文件数
+  bytesIn: number;
+  bytesOut: number;
+  savedBytes: number;
+  savedPercent: number;
+};
+
+export type CompressReport = {
+  generatedAt: string; // ISO 时间
+  totals: CompressReportTotals;
+  rows: CompressReportRow[];
+};
+
+const fileName = (filePath: string) => filePath.split(/[\\/]/).pop() ?? "";
+
+const dimensions = (width?: number, height?: number) =>
+  width && height ? `${width}x${height}` : undefined;
+
+// 节省比例保留一位小数
+const percentSaved = (bytesIn: number, bytesOut: number) =>
+  bytesIn > 0 ? Math.round(((bytesIn - bytesOut) / bytesIn) * 1000) / 10 : 0;
+
+function statusOf(result: CompressFileResult): CompressReportStatus {
+  if (result.status === JobFileStatusEnum.CANCELLED) return "cancelled";
+  if (!result.success) return "failed";
+  return result.skipped ? "skipped" : "done";
+}
+
+/**
+ * 根据 compressFiles 的逐项结果生成压缩报告
+ */
+export function buildCompressReport(
+  results: CompressFileResult[]
+): CompressReport {
+  const rows = results.map((r): CompressReportRow => {
+    const hasOutput = r.bytesIn !== undefined && r.bytesOut !== undefined;
+    return {
+      fileName: fileName(r.inputPath),
+      inputPath: r.inputPath,
+      outputPath: r.outputPath,
+      status: statusOf(r),
+      bytesIn: r.bytesIn,
+      bytesOut: r.bytesOut,
+      savedPercent: hasOutput
+        ? percentSaved(r.bytesIn!, r.bytesOut!)
+        : undefined,
+      dimensions: dimensions(r.width, r.height),
+      outputDimensions: dimensions(r.outputWidth, r.outputHeight),
+      ssim: r.ssim,
+      detail: r.detail,
+      error: r.success ? undefined : r.error,
+    };
+  });
+  const withOutput = rows.filter((r) => r.savedPercent !== undefined);
+  const bytesIn = withOutput.reduce((sum, r) => sum + r.bytesIn!, 0);
+  const bytesOut = withOutput.reduce((sum, r) => sum + r.bytesOut!, 0);
+  const count = (status: CompressReportStatus) =>
+    rows.filter((r) => r.status === status).length;
+  return {
+    generatedAt: new Date().toISOString(),
+    totals: {
+      files: rows.length,
+      done: count("done"),
+      skipped: count("skipped"),
+      failed: count("failed"),
+      cancelled: count("cancelled"),
+      lossless: results.filter((r) => r.lossless && !r.skipped).length,
+      targetUnmet: results.filter((r) => r.targetMet === false).length,
+      bytesIn,
+      bytesOut,
+      savedBytes: bytesIn - bytesOut,
+      savedPercent: percentSaved(bytesIn, bytesOut),
+    },
+    rows,
+  };
+}
+
+// CSV 字段转义：包含逗号、引号或换行时用引号包裹
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 导出为 CSV（带 BOM，便于 Excel 正确识别中文），最后一行为合计
+ */
+export function compressReportToCsv(report: CompressReport): string {
+  const header = [
+    "文件名",
+    "原路径",
+    "输出路径",
+    "状态",
+    "原大小(字节)",
+    "新大小(字节)",
+    "节省比例(%)",
+    "原尺寸",
+    "新尺寸",
+    "SSIM",
+    "说明",
+    "失败原因",
+  ];
+  const lines = report.rows.map((r) =>
+    [
+      r.fileName,
+      r.inputPath,
+      r.outputPath,
+      COMPRESS_REPORT_STATUS_LABELS[r.status],
+      r.bytesIn,
+      r.bytesOut,
+      r.savedPercent,
+      r.dimensions,
+      r.outputDimensions,
+      r.ssim,
+      r.detail,
+      r.error,
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  const { totals } = report;
+  const total = [
+    `合计 ${totals.files} 个文件`,
+    "",
+    "",
+    `完成 ${totals.done} / 跳过 ${totals.skipped} / 失败 ${totals.failed} / 取消 ${totals.cancelled}`,
+    totals.bytesIn,
+    totals.bytesOut,
+    totals.savedPercent,
+  ]
+    .map(csvField)
+    .join(",");
+  return `\ufeff${[header.join(","), ...lines, total].join("\r\n")}\r\n`;
+}
+
+/**
+ * 导出为 JSON
+ */
+export function compressReportToJson(report: CompressReport): string {
+  return JSON.stringify(report, null, 2);
+}
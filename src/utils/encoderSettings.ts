@@ -0,0 +1,54 @@
+import type { EncoderSettings } from "@/types";
+
+export type EncoderFormat = keyof EncoderSettings;
+
+const STORAGE_KEY_PREFIX = "encoderSettings."; // 本地存储键名前缀（每个格式单独保存）
+
+/**
+ * 各格式的默认编码设置（与未设置时主进程使用的默认值一致）
+ */
+export const DEFAULT_ENCODER_SETTINGS: Required<EncoderSettings> = {
+  jpeg: { progressive: true, chromaSubsampling: "4:2:0" },
+  png: { progressive: false, palette: true, colors: 256, dither: 1 },
+  webp: { effort: 4, nearLossless: false },
+  avif: { effort: 4, chromaSubsampling: "4:4:4" },
+  tiff: { compression: "jpeg", predictor: "horizontal" },
+  gif: { colors: 256, dither: 1, effort: 7 },
+  svg: { precision: 3 },
+};
+
+const FORMATS = Object.keys(DEFAULT_ENCODER_SETTINGS) as EncoderFormat[];
+
+/**
+ * 读取保存的编码设置，缺失或损坏的格式使用默认值
+ */
+export function loadEncoderSettings(): Required<EncoderSettings> {
+  const settings = { ...DEFAULT_ENCODER_SETTINGS };
+  for (const format of FORMATS) {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY_PREFIX + format);
+      if (stored) {
+        Object.assign(settings, {
+          [format]: { ...settings[format], ...JSON.parse(stored) },
+        });
+      }
+    } catch {
+      // 存储内容损坏时忽略，使用默认值
+    }
+  }
+  return settings;
+}
+
+/**
+ * 保存编码设置（只写入传入的格式）
+ */
+export function saveEncoderSettings(settings: EncoderSettings): void {
+  for (const format of FORMATS) {
+    if (settings[format]) {
+      localStorage.setItem(
+        STORAGE_KEY_PREFIX + format,
+        JSON.stringify(settings[format])
+      );
+    }
+  }
+}
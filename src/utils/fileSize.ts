@@ -0,0 +1,15 @@
+const UNITS = ["B", "KB", "MB", "GB"];
+
+/**
+ * 格式化文件大小，如 1536 -> "1.5 KB"
+ */
+export function formatBytes(bytes?: number): string {
+  if (bytes === undefined || !Number.isFinite(bytes)) return "-";
+  let value = bytes;
+  let unit = 0;
+  while (Math.abs(value) >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${UNITS[unit]}`;
+}
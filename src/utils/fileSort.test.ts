@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  FileItemTypeEnum,
+  OrientationEnum,
+  SortKeyEnum,
+  type DirectorySort,
+  type FileItem,
+} from "@/types";
+import { compareFileItems, matchesFilter } from "./fileSort";
+
+function image(name: string, fields: Partial<FileItem> = {}): FileItem {
+  return {
+    name,
+    path: `/pictures/${name}`,
+    type: FileItemTypeEnum.IMAGE,
+    ...fields,
+  };
+}
+
+function folder(name: string): FileItem {
+  return { name, path: `/pictures/${name}`, type: FileItemTypeEnum.FOLDER };
+}
+
+// 排序后返回名称列表
+function sortNames(items: FileItem[], sort?: DirectorySort) {
+  return [...items]
+    .sort((a, b) => compareFileItems(a, b, sort))
+    .map((item) => item.name);
+}
+
+describe("compareFileItems", () => {
+  it("文件夹在前，名称按自然数字顺序排列", () => {
+    const items = [image("img10.png"), folder("b"), image("img2.png")];
+    expect(sortNames(items)).toEqual(["b", "img2.png", "img10.png"]);
+  });
+
+  it("降序时文件夹仍在前，名称倒序", () => {
+    const items = [folder("a"), image("x.png"), folder("b"), image("y.png")];
+    expect(
+      sortNames(items, { sortBy: SortKeyEnum.NAME, order: "desc" })
+    ).toEqual(["b", "a", "y.png", "x.png"]);
+  });
+
+  it("排序字段的值相同时按名称排序（跟随排序方向）", () => {
+    const items = [
+      image("c.png", { size: 10 }),
+      image("a.png", { size: 10 }),
+      image("b.png", { size: 5 }),
+    ];
+    expect(
+      sortNames(items, { sortBy: SortKeyEnum.SIZE, order: "asc" })
+    ).toEqual(["b.png", "a.png", "c.png"]);
+    expect(
+      sortNames(items, { sortBy: SortKeyEnum.SIZE, order: "desc" })
+    ).toEqual(["c.png", "a.png", "b.png"]);
+  });
+
+  it("按尺寸排序比较像素总数", () => {
+    const items = [
+      image("wide.png", { width: 400, height: 100 }),
+      image("small.png", { width: 100, height: 100 }),
+      image("large.png", { width: 300, height: 300 }),
+    ];
+    expect(
+      sortNames(items, { sortBy: SortKeyEnum.DIMENSIONS, order: "asc" })
+    ).toEqual(["small.png", "wide.png", "large.png"]);
+  });
+
+  it("尺寸未知的图片无论升降序都排在最后，彼此按名称排序", () => {
+    const items = [
+      image("b-unknown.png"),
+      image("big.png", { width: 200, height: 200 }),
+      image("a-unknown.png", { width: 100 }),
+      image("small.png", { width: 10, height: 10 }),
+    ];
+    expect(
+      sortNames(items, { sortBy: SortKeyEnum.DIMENSIONS, order: "asc" })
+    ).toEqual(["small.png", "big.png", "a-unknown.png", "b-unknown.png"]);
+    expect(
+      sortNames(items, { sortBy: SortKeyEnum.DIMENSIONS, order: "desc" })
+    ).toEqual(["big.png", "small.png", "b-unknown.png", "a-unknown.png"]);
+  });
+});
+
+describe("matchesFilter", () => {
+  it("文件夹始终保留", () => {
+    expect(matchesFilter(folder("a"), { extensions: ["png"] })).toBe(true);
+  });
+
+  it("按扩展名筛选，jpeg、tif 视为 jpg、tiff", () => {
+    const filter = { extensions: ["jpg", "tiff"] };
+    expect(matchesFilter(image("a.JPEG"), filter)).toBe(true);
+    expect(matchesFilter(image("a.tif"), filter)).toBe(true);
+    expect(matchesFilter(image("a.png"), filter)).toBe(false);
+  });
+
+  it("按文件大小筛选（包含边界）", () => {
+    const filter = { minSize: 10, maxSize: 20 };
+    expect(matchesFilter(image("a.png", { size: 10 }), filter)).toBe(true);
+    expect(matchesFilter(image("a.png", { size: 20 }), filter)).toBe(true);
+    expect(matchesFilter(image("a.png", { size: 9 }), filter)).toBe(false);
+    expect(matchesFilter(image("a.png", { size: 21 }), filter)).toBe(false);
+  });
+
+  it("按横竖方向筛选", () => {
+    const filter = { orientation: OrientationEnum.PORTRAIT };
+    expect(
+      matchesFilter(image("a.png", { width: 100, height: 200 }), filter)
+    ).toBe(true);
+    expect(
+      matchesFilter(image("a.png", { width: 200, height: 100 }), filter)
+    ).toBe(false);
+    expect(
+      matchesFilter(image("a.png", { width: 100, height: 100 }), {
+        orientation: OrientationEnum.SQUARE,
+      })
+    ).toBe(true);
+  });
+
+  it("尺寸或大小未知时视为满足条件", () => {
+    expect(
+      matchesFilter(image("a.png"), {
+        orientation: OrientationEnum.LANDSCAPE,
+        minSize: 10,
+      })
+    ).toBe(true);
+    expect(
+      matchesFilter(image("a.png", { width: 100 }), {
+        orientation: OrientationEnum.LANDSCAPE,
+      })
+    ).toBe(true);
+  });
+});
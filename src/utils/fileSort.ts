@@ -0,0 +1,123 @@
+import {
+  FileItemTypeEnum,
+  OrientationEnum,
+  SortKeyEnum,
+  type DirectoryFilter,
+  type DirectorySort,
+  type FileItem,
+} from "@/types";
+
+// 自然排序：img2 排在 img10 之前
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+/**
+ * 获取文件扩展名（不含点号，小写）
+ */
+export function getExtension(name: string): string {
+  const idx = name.lastIndexOf(".");
+  return idx >= 0 ? name.slice(idx + 1).toLowerCase() : "";
+}
+
+/**
+ * 按排序字段比较两张图片（不含方向处理，未知的值排在最后）
+ */
+function compareByKey(a: FileItem, b: FileItem, sortBy: SortKeyEnum): number {
+  const byNumber = (x?: number, y?: number) => {
+    if (x === undefined && y === undefined) return 0;
+    if (x === undefined) return 1;
+    if (y === undefined) return -1;
+    return x - y;
+  };
+  switch (sortBy) {
+    case SortKeyEnum.SIZE:
+      return byNumber(a.size, b.size);
+    case SortKeyEnum.MODIFIED_AT:
+      return byNumber(a.modifiedAt, b.modifiedAt);
+    case SortKeyEnum.DIMENSIONS:
+      return byNumber(
+        a.width && a.height ? a.width * a.height : undefined,
+        b.width && b.height ? b.width * b.height : undefined
+      );
+    case SortKeyEnum.FORMAT:
+      return collator.compare(getExtension(a.name), getExtension(b.name));
+    default:
+      return 0;
+  }
+}
+
+/**
+ * 目录条目排序规则：文件夹在前，图片在后
+ * - 文件夹始终按名称排序（降序时名称倒序）
+ * - 图片按指定字段排序，值相同时按名称排序
+ * 主进程读取目录与渲染进程插入新增条目时共用，保证两边顺序一致
+ */
+export function compareFileItems(
+  a: FileItem,
+  b: FileItem,
+  sort?: DirectorySort
+): number {
+  if (a.type !== b.type) {
+    return a.type === FileItemTypeEnum.FOLDER ? -1 : 1;
+  }
+  const direction = sort?.order === "desc" ? -1 : 1;
+  const sortBy = sort?.sortBy ?? SortKeyEnum.NAME;
+  if (a.type === FileItemTypeEnum.IMAGE && sortBy !== SortKeyEnum.NAME) {
+    const diff = compareByKey(a, b, sortBy);
+    if (diff !== 0) {
+      // 未知的值（如无法读取尺寸）无论升降序都排在最后
+      const unknownA = diff > 0 && isUnknown(a, sortBy);
+      const unknownB = diff < 0 && isUnknown(b, sortBy);
+      return unknownA || unknownB ? diff : diff * direction;
+    }
+  }
+  return collator.compare(a.name, b.name) * direction;
+}
+
+function isUnknown(item: FileItem, sortBy: SortKeyEnum) {
+  switch (sortBy) {
+    case SortKeyEnum.SIZE:
+      return item.size === undefined;
+    case SortKeyEnum.MODIFIED_AT:
+      return item.modifiedAt === undefined;
+    case SortKeyEnum.DIMENSIONS:
+      return !item.width || !item.height;
+    default:
+      return false;
+  }
+}
+
+/**
+ * 判断条目是否满足筛选条件
+ * - 文件夹始终保留
+ * - 无法确定的条件（如尚未读取尺寸）视为满足
+ */
+export function matchesFilter(item: FileItem, filter?: DirectoryFilter) {
+  if (!filter || item.type !== FileItemTypeEnum.IMAGE) return true;
+  if (filter.extensions?.length) {
+    let ext = getExtension(item.name);
+    if (ext === "jpeg") ext = "jpg";
+    if (ext === "tif") ext = "tiff";
+    if (!filter.extensions.includes(ext)) return false;
+  }
+  if (item.size !== undefined) {
+    if (filter.minSize !== undefined && item.size < filter.minSize) {
+      return false;
+    }
+    if (filter.maxSize !== undefined && item.size > filter.maxSize) {
+      return false;
+    }
+  }
+  if (filter.orientation && item.width && item.height) {
+    const orientation =
+      item.width > item.height
+        ? OrientationEnum.LANDSCAPE
+        : item.width < item.height
+        ? OrientationEnum.PORTRAIT
+        : OrientationEnum.SQUARE;
+    if (orientation !== filter.orientation) return false;
+  }
+  return true;
+}
@@ -0,0 +1,173 @@
+import { ColorProfileEnum, type ConvertOptions } from "@/types";
+
+/**
+ * 可调整的转换编码选项
+ */
+export type ConvertOptionKey = keyof ConvertOptions;
+
+export type ConvertFormatInfo = {
+  label: string; // 显示名称
+  ext: string; // 输出扩展名
+  aliases: string[]; // 视为同一格式的扩展名（不含点号）
+  alpha: boolean; // 是否支持透明通道
+  animated: boolean; // 是否支持多帧动图
+  icc: boolean; // 是否支持嵌入 ICC 配置文件
+  options: ConvertOptionKey[]; // 可调整的编码选项
+  defaults: ConvertOptions; // 编码选项默认值
+  effort?: { min: number; max: number }; // 压缩力度范围
+};
+
+/**
+ * 格式转换的目标格式注册表
+ * - 主进程按此校验参数与编码，渲染进程按此生成目标格式与编码选项
+ * - ConvertFormat 类型由此派生，新增格式只需在这里登记并在主进程实现编码
+ */
+export const CONVERT_FORMATS = {
+  jpg: {
+    label: "JPG",
+    ext: ".jpg",
+    aliases: ["jpg", "jpeg"],
+    alpha: false,
+    animated: false,
+    icc: true,
+    options: ["quality"],
+    defaults: { quality: 90 },
+  },
+  png: {
+    label: "PNG",
+    ext: ".png",
+    aliases: ["png"],
+    alpha: true,
+    animated: false,
+    icc: true,
+    options: ["colors"],
+    defaults: {},
+  },
+  bmp: {
+    label: "BMP",
+    ext: ".bmp",
+    aliases: ["bmp"],
+    alpha: false,
+    animated: false,
+    icc: false,
+    options: [],
+    defaults: {},
+  },
+  webp: {
+    label: "WebP",
+    ext: ".webp",
+    aliases: ["webp"],
+    alpha: true,
+    animated: true,
+    icc: true,
+    options: ["quality", "lossless", "effort"],
+    defaults: { quality: 85, lossless: false, effort: 4 },
+    effort: { min: 0, max: 6 },
+  },
+  avif: {
+    label: "AVIF",
+    ext: ".avif",
+    aliases: ["avif"],
+    alpha: true,
+    animated: false,
+    icc: true,
+    options: ["quality", "lossless", "effort"],
+    defaults: { quality: 60, lossless: false, effort: 4 },
+    effort: { min: 0, max: 9 },
+  },
+  tiff: {
+    label: "TIFF",
+    ext: ".tiff",
+    aliases: ["tif", "tiff"],
+    alpha: true,
+    animated: false,
+    icc: true,
+    options: ["quality", "compression"],
+    defaults: { quality: 90, compression: "deflate" },
+  },
+  gif: {
+    label: "GIF",
+    ext: ".gif",
+    aliases: ["gif"],
+    alpha: true,
+    animated: true,
+    icc: false,
+    options: ["colors", "effort"],
+    defaults: { colors: 256, effort: 7 },
+    effort: { min: 1, max: 10 },
+  },
+  heif: {
+    label: "HEIF",
+    ext: ".heif",
+    aliases: ["heif", "heic"],
+    alpha: true,
+    animated: false,
+    icc: true,
+    options: ["quality", "effort"],
+    defaults: { quality: 60, effort: 4 },
+    effort: { min: 0, max: 9 },
+  },
+  ico: {
+    label: "ICO",
+    ext: ".ico",
+    aliases: ["ico"],
+    alpha: true,
+    animated: false,
+    icc: false,
+    options: ["sizes"],
+    defaults: { sizes: [16, 32, 48, 256] },
+  },
+} satisfies Record<string, ConvertFormatInfo>;
+
+/**
+ * 格式转换的目标格式
+ */
+export type ConvertFormat = keyof typeof CONVERT_FORMATS;
+
+export const CONVERT_FORMAT_LIST = Object.keys(
+  CONVERT_FORMATS
+) as ConvertFormat[];
+
+/**
+ * SVG 可导出的位图格式
+ */
+export const RASTERIZE_FORMATS = [
+  "png",
+  "webp",
+  "jpg",
+] as const satisfies readonly ConvertFormat[];
+
+export type RasterizeFormat = (typeof RASTERIZE_FORMATS)[number];
+
+/**
+ * 目标格式不支持透明时，透明区域默认的填充色
+ */
+export const DEFAULT_FLATTEN_BACKGROUND = "#ffffff";
+
+/**
+ * 色彩配置文件处理方式的选项（压缩与格式转换共用）
+ */
+export const COLOR_PROFILE_OPTIONS = [
+  {
+    value: ColorProfileEnum.STRIP,
+    label: "转换为 sRGB，去除配置文件（体积最小）",
+  },
+  { value: ColorProfileEnum.SRGB, label: "转换为 sRGB，嵌入 sRGB 配置文件" },
+  { value: ColorProfileEnum.KEEP, label: "保留原配置文件（广色域、CMYK 等）" },
+];
+
+/**
+ * ICO 可包含的图标尺寸
+ */
+export const ICO_SIZES = [16, 24, 32, 48, 64, 128, 256];
+
+/**
+ * 根据文件名判断所属格式（不在注册表中时返回 undefined）
+ */
+export function formatOfFileName(name: string): ConvertFormat | undefined {
+  const idx = name.lastIndexOf(".");
+  const ext = idx >= 0 ? name.slice(idx + 1).toLowerCase() : "";
+  return CONVERT_FORMAT_LIST.find((f) =>
+    CONVERT_FORMATS[f].aliases.includes(ext)
+  );
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { computeSsim } from "./ssim";
+
+const WIDTH = 32;
+const HEIGHT = 24;
+
+// 带渐变与棋盘纹理的灰度图
+function createImage() {
+  const pixels = new Uint8Array(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const checker = ((x >> 2) + (y >> 2)) % 2 ? 60 : 0;
+      pixels[y * WIDTH + x] = x * 4 + y * 2 + checker;
+    }
+  }
+  return pixels;
+}
+
+// 4x4 方块取平均，模拟有损压缩丢失细节
+function blockAverage(pixels: Uint8Array, block: number) {
+  const result = new Uint8Array(pixels.length);
+  for (let by = 0; by < HEIGHT; by += block) {
+    for (let bx = 0; bx < WIDTH; bx += block) {
+      let sum = 0;
+      for (let y = by; y < by + block; y++) {
+        for (let x = bx; x < bx + block; x++) sum += pixels[y * WIDTH + x];
+      }
+      const mean = Math.round(sum / (block * block));
+      for (let y = by; y < by + block; y++) {
+        result.fill(mean, y * WIDTH + bx, y * WIDTH + bx + block);
+      }
+    }
+  }
+  return result;
+}
+
+describe("computeSsim", () => {
+  it("相同图片的 SSIM 为 1", () => {
+    const image = createImage();
+    expect(computeSsim(image, image.slice(), WIDTH, HEIGHT)).toBeCloseTo(1, 10);
+  });
+
+  it("细节损失越多 SSIM 越低", () => {
+    const image = createImage();
+    const light = computeSsim(image, blockAverage(image, 2), WIDTH, HEIGHT);
+    const heavy = computeSsim(image, blockAverage(image, 8), WIDTH, HEIGHT);
+    expect(light).toBeLessThan(1);
+    expect(heavy).toBeLessThan(light);
+  });
+
+  it("图片小于窗口时整张图作为一个窗口", () => {
+    const a = new Uint8Array([0, 50, 100, 150]);
+    expect(computeSsim(a, a, 2, 2)).toBeCloseTo(1, 10);
+    expect(computeSsim(a, a.slice().reverse(), 2, 2)).toBeLessThan(0);
+  });
+
+  it("像素数据不足时抛出错误", () => {
+    const a = new Uint8Array(10);
+    expect(() => computeSsim(a, a, 4, 4)).toThrow();
+  });
+});
@@ -0,0 +1,60 @@
+const WINDOW = 8; // 窗口边长（像素）
+const STRIDE = 4; // 窗口步长，相邻窗口重叠一半
+// SSIM 稳定常数（8 位像素，K1 = 0.01，K2 = 0.03）
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+/**
+ * 计算两张同尺寸单通道（灰度）图片的结构相似度 SSIM
+ * @param a 参考图片像素（逐行排列，每像素 1 字节）
+ * @param b 待比较图片像素，尺寸须与 a 一致
+ * @returns 各窗口 SSIM 的平均值，1 表示完全一致
+ *
+ * 使用 8x8 方形窗口、步长 4 的平均 SSIM；图片小于窗口时整张图作为一个窗口
+ */
+export function computeSsim(
+  a: Uint8Array,
+  b: Uint8Array,
+  width: number,
+  height: number
+): number {
+  if (a.length < width * height || b.length < width * height) {
+    throw new Error("像素数据与尺寸不一致");
+  }
+  const winW = Math.min(WINDOW, width);
+  const winH = Math.min(WINDOW, height);
+  const n = winW * winH;
+  let total = 0;
+  let count = 0;
+  for (let y = 0; y + winH <= height; y += STRIDE) {
+    for (let x = 0; x + winW <= width; x += STRIDE) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let j = 0; j < winH; j++) {
+        let i = (y + j) * width + x;
+        for (const end = i + winW; i < end; i++) {
+          const va = a[i];
+          const vb = b[i];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      count++;
+    }
+  }
+  return count ? total / count : 1;
+}
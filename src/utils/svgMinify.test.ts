@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { minifySvg } from "./svgMinify";
+
+describe("minifySvg", () => {
+  it("删除注释、元数据与编辑器命名空间，降低几何属性精度", () => {
+    const svg = `<?xml version="1.0"?>
+<!-- 注释 -->
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="x" inkscape:version="1">
+  <metadata><rdf:RDF/></metadata>
+  <rect   x="0.123456"  width="10"
+    height="2.50000" />
+</svg>`;
+    expect(minifySvg(svg)).toBe(
+      `<svg xmlns="http://www.w3.org/2000/svg"><rect x=".123" width="10" height="2.5"/></svg>`
+    );
+  });
+
+  it("保留 CDATA 的内容", () => {
+    const data = `<![CDATA[ a  >  <b x="1.23456"> <!-- c --> ]]>`;
+    const svg = `<svg>\n  <script>${data}</script>\n</svg>`;
+    expect(minifySvg(svg)).toBe(`<svg><script>${data}</script></svg>`);
+  });
+
+  it("保留 <style> 与 <script> 的内容", () => {
+    const style = `\n    .a > .b { fill: red }\n    /* <!-- x --> */\n  `;
+    const script = `\n    if (a<b && c>d) { x="1.23456" }\n  `;
+    const svg = `<svg>\n  <style type="text/css">${style}</style>\n  <script>${script}</script>\n</svg>`;
+    expect(minifySvg(svg)).toBe(
+      `<svg><style type="text/css">${style}</style><script>${script}</script></svg>`
+    );
+  });
+
+  it('保留 xml:space="preserve" 元素内的空白', () => {
+    const preserved = `<g xml:space="preserve">\n  <text>a</text>  <text>b</text>\n</g>`;
+    expect(
+      minifySvg(`<svg>\n  ${preserved}\n  <g> <path d="M0 0"/> </g>\n</svg>`)
+    ).toBe(`<svg>${preserved}<g><path d="M0 0"/></g></svg>`);
+  });
+
+  it("保留 <text> 内标签之间的空白", () => {
+    const text = `<text x="1"> <tspan>a</tspan> <tspan>b</tspan> </text>`;
+    expect(minifySvg(`<svg>\n  ${text}\n</svg>`)).toBe(`<svg>${text}</svg>`);
+  });
+
+  it("属性值中包含 > 时保持原样", () => {
+    const svg = `<svg>\n  <g  aria-label="a > b   c"  data-x='1 >  2' >\n    <path d="M0 0"/>\n  </g>\n</svg>`;
+    expect(minifySvg(svg)).toBe(
+      `<svg><g aria-label="a > b   c" data-x='1 >  2'><path d="M0 0"/></g></svg>`
+    );
+  });
+});
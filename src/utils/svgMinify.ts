@@ -0,0 +1,156 @@
+// 编辑器写入的私有命名空间（Inkscape、Sketch、Affinity、Illustrator 等）
+const EDITOR_NAMESPACES = ["sodipodi", "inkscape", "sketch", "serif", "i"];
+const NS = `(?:${EDITOR_NAMESPACES.join("|")})`;
+
+// 只在这些几何属性中降低数字精度
+const NUMERIC_ATTRIBUTES = [
+  "d",
+  "points",
+  "transform",
+  "gradientTransform",
+  "patternTransform",
+  "viewBox",
+  "x",
+  "y",
+  "x1",
+  "y1",
+  "x2",
+  "y2",
+  "cx",
+  "cy",
+  "fx",
+  "fy",
+  "r",
+  "rx",
+  "ry",
+  "width",
+  "height",
+  "stroke-width",
+  "offset",
+  "opacity",
+  "fill-opacity",
+  "stroke-opacity",
+];
+
+const NUMBER = /-?(?:\d+\.\d*|\.\d+|\d+)(?:e[-+]?\d+)?/gi;
+
+// 按精度取整数字（省略前导 0），整数保持原样
+function roundNumbers(value: string, precision: number) {
+  return value.replace(NUMBER, (match: string, offset: number) => {
+    if (!/[.e]/i.test(match)) return match;
+    const rounded = String(
+      parseFloat(Number(match).toFixed(precision))
+    ).replace(/^(-?)0\./, "$1.");
+    // 路径中 "1.5.5" 表示两个数字，后一个数字依赖 "." 分隔，取整后需补空格
+    return match.startsWith(".") && /[\d.]/.test(value[offset - 1] ?? "")
+      ? ` ${rounded}`
+      : rounded;
+  });
+}
+
+// 开始标签（引号内的 > 不视为标签结束）
+const START_TAG = `<([a-zA-Z][\\w:.-]*)(?:[^>"']|"[^"]*"|'[^']*')*>`;
+
+// 暂存片段的占位符（SVG 中不允许出现 \0），合并空白时与标签同等对待
+const PLACEHOLDER = /\0(\d+)\0/g;
+
+// 找到与开始标签配对的结束标签（同名元素可以嵌套），返回结束标签之后的位置
+function findElementEnd(text: string, name: string, from: number) {
+  const tags = new RegExp(
+    `<(/?)${name.replace(/\./g, "\\.")}(?=[\\s/>])(?:[^>"']|"[^"]*"|'[^']*')*>`,
+    "g"
+  );
+  tags.lastIndex = from;
+  let depth = 1;
+  for (let match = tags.exec(text); match; match = tags.exec(text)) {
+    if (match[1]) depth--;
+    else if (!match[0].endsWith("/>")) depth++;
+    if (depth === 0) return tags.lastIndex;
+  }
+  return text.length;
+}
+
+/**
+ * 精简 SVG 标记（不改变渲染结果的前提下减小体积）
+ * @param svg SVG 源码
+ * @param precision 几何属性保留的小数位数，默认 3
+ * @returns 精简后的 SVG 源码
+ *
+ * 行为说明：
+ * - 删除 XML 声明、无内部子集的 DOCTYPE、注释与 <metadata>
+ * - 删除编辑器私有命名空间的元素、属性与命名空间声明
+ * - 降低路径、变换与坐标等几何属性中的小数精度
+ * - 合并标签内的多余空白，删除标签之间的纯空白
+ * - CDATA、<style>、<script> 的内容原样保留；<text> 与 xml:space="preserve" 元素内的空白保留
+ */
+export function minifySvg(svg: string, precision = 3): string {
+  // 不能改动的片段先替换为占位符，处理完成后还原
+  const stash: string[] = [];
+  const save = (part: string) => `\0${stash.push(part) - 1}\0`;
+  const restore = (part: string): string =>
+    part.replace(PLACEHOLDER, (_, i: string) => restore(stash[Number(i)]));
+
+  let text = svg
+    .replace(/^\ufeff/, "")
+    .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, save)
+    .replace(
+      /(<(style|script)\b(?:[^>"']|"[^"]*"|'[^']*')*(?<!\/)>)([\s\S]*?)(<\/\2\s*>)/gi,
+      (_, open: string, _name: string, content: string, close: string) =>
+        open + save(content) + close
+    )
+    .replace(/<\?xml[\s\S]*?\?>/, "")
+    .replace(/<!DOCTYPE[^>[]*>/i, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<metadata\b[^>]*\/>/g, "")
+    .replace(/<metadata\b[\s\S]*?<\/metadata>/g, "")
+    .replace(new RegExp(`<(${NS}:[\\w.-]+)\\b[^>]*\\/>`, "g"), "")
+    .replace(new RegExp(`<(${NS}:[\\w.-]+)\\b[\\s\\S]*?<\\/\\1>`, "g"), "")
+    .replace(
+      new RegExp(`\\s(?:xmlns:${NS}|${NS}:[\\w.-]+)=("|')[^"']*\\1`, "g"),
+      ""
+    );
+
+  const attrs = new RegExp(
+    `(\\s(?:${NUMERIC_ATTRIBUTES.join("|")})=)("|')([^"']*)\\2`,
+    "g"
+  );
+  text = text.replace(
+    attrs,
+    (_, name: string, quote: string, value: string) =>
+      `${name}${quote}${roundNumbers(value, precision)}${quote}`
+  );
+
+  // <text> 与 xml:space="preserve" 元素中标签之间的空白会影响排版，整段保留
+  const startTags = new RegExp(START_TAG, "g");
+  let result = "";
+  let last = 0;
+  for (let match = startTags.exec(text); match; match = startTags.exec(text)) {
+    const [tag, name] = match;
+    if (
+      tag.endsWith("/>") ||
+      (name !== "text" && !/\sxml:space=("|')preserve\1/.test(tag))
+    ) {
+      continue;
+    }
+    const end = findElementEnd(text, name, startTags.lastIndex);
+    result +=
+      text.slice(last, match.index) + save(text.slice(match.index, end));
+    last = startTags.lastIndex = end;
+  }
+  text = result + text.slice(last);
+
+  // 只合并引号外的空白，属性值保持原样
+  text = text
+    .replace(new RegExp(START_TAG, "g"), (tag) =>
+      tag
+        .replace(/("[^"]*"|'[^']*')|\s+/g, (part, quoted?: string) =>
+          quoted ? part : " "
+        )
+        .replace(/ (\/?>)$/, "$1")
+    )
+    .replace(/(>|\0)\s+(?=<|\0)/g, "$1")
+    .replace(/(>|\0)\s+$/, "$1")
+    .replace(/^\s+(?=<|\0)/, "");
+
+  return restore(text).trim();
+}
@@ -30,7 +30,7 @@ export default defineConfig(() => {
           },
         },
         {
-          // 预加载脚本配置
+          // 预加载脚本配置（窗口启用了沙箱，需输出为 CommonJS）
           entry: "src/electron/preload.ts",
           vite: {
             resolve: {
@@ -40,7 +40,10 @@ export default defineConfig(() => {
             },
             build: {
               rollupOptions: {
-                external: ["sharp"],
+                output: {
+                  format: "cjs",
+                  entryFileNames: "[name].cjs",
+                },
               },
             },
           },